@@ -0,0 +1,150 @@
+import {
+  convertUint8ArrayToBase64,
+  DownloadError,
+  FetchFunction,
+  readResponseWithSizeLimit,
+  validateDownloadUrl,
+} from '@ai-sdk/provider-utils';
+import { OllamaChatPrompt } from './ollama-chat-prompt';
+
+export interface OllamaImageDownloadSettings {
+  /**
+   * Maximum size of a downloaded image in bytes. Defaults to 20 MiB.
+   */
+  maxBytes?: number;
+
+  /**
+   * Timeout for downloading a single image in milliseconds. Defaults to 30
+   * seconds.
+   */
+  timeout?: number;
+}
+
+const DEFAULT_MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const DEFAULT_IMAGE_DOWNLOAD_TIMEOUT = 30_000;
+
+/**
+ * Ollama only accepts base64 encoded images. Converts binary image data to
+ * base64 and downloads image URLs with the configured fetch implementation.
+ */
+export async function convertOllamaImagesToBase64(
+  messages: OllamaChatPrompt,
+  {
+    fetch,
+    abortSignal,
+    maxBytes = DEFAULT_MAX_IMAGE_BYTES,
+    timeout = DEFAULT_IMAGE_DOWNLOAD_TIMEOUT,
+  }: OllamaImageDownloadSettings & {
+    fetch?: FetchFunction;
+    abortSignal?: AbortSignal;
+  },
+): Promise<OllamaChatPrompt> {
+  return Promise.all(
+    messages.map(async message => {
+      if (
+        (message.role !== 'user' && message.role !== 'tool') ||
+        message.images == null
+      ) {
+        return message;
+      }
+
+      const images = await Promise.all(
+        message.images.map(image =>
+          convertImageToBase64(image, { fetch, abortSignal, maxBytes, timeout }),
+        ),
+      );
+
+      return { ...message, images };
+    }),
+  );
+}
+
+async function convertImageToBase64(
+  image: Uint8Array | string | URL,
+  options: {
+    fetch: FetchFunction | undefined;
+    abortSignal: AbortSignal | undefined;
+    maxBytes: number;
+    timeout: number;
+  },
+): Promise<string> {
+  if (image instanceof Uint8Array) {
+    return convertUint8ArrayToBase64(image);
+  }
+
+  if (typeof image === 'string') {
+    return stripDataUrlPrefix(image);
+  }
+
+  if (image.protocol === 'data:') {
+    return stripDataUrlPrefix(image.href);
+  }
+
+  return downloadImage(image.href, options);
+}
+
+function stripDataUrlPrefix(image: string): string {
+  const match = /^data:[^;,]*;base64,/.exec(image);
+  return match != null ? image.slice(match[0].length) : image;
+}
+
+async function downloadImage(
+  url: string,
+  {
+    fetch = globalThis.fetch,
+    abortSignal,
+    maxBytes,
+    timeout,
+  }: {
+    fetch: FetchFunction | undefined;
+    abortSignal: AbortSignal | undefined;
+    maxBytes: number;
+    timeout: number;
+  },
+): Promise<string> {
+  validateDownloadUrl(url);
+
+  const controller = new AbortController();
+  const abort = () => controller.abort(abortSignal?.reason);
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  abortSignal?.addEventListener('abort', abort);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+
+    if (!response.ok) {
+      throw new DownloadError({
+        url,
+        statusCode: response.status,
+        statusText: response.statusText,
+      });
+    }
+
+    const contentType = response.headers.get('content-type');
+    if (contentType == null || !contentType.startsWith('image/')) {
+      throw new DownloadError({
+        url,
+        message: `Failed to download ${url}: expected an image, but received content type ${contentType ?? 'unknown'}.`,
+      });
+    }
+
+    const data = await readResponseWithSizeLimit({ response, url, maxBytes });
+
+    return convertUint8ArrayToBase64(data);
+  } catch (error) {
+    if (DownloadError.isInstance(error) || abortSignal?.aborted) {
+      throw error;
+    }
+
+    throw new DownloadError({
+      url,
+      message: controller.signal.aborted
+        ? `Failed to download ${url}: timed out after ${timeout}ms.`
+        : undefined,
+      cause: error,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+    abortSignal?.removeEventListener('abort', abort);
+  }
+}
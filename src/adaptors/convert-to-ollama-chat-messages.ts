@@ -1,17 +1,33 @@
 import {
-  LanguageModelV2FilePart,
-  LanguageModelV2Prompt,
+  LanguageModelV3FilePart,
+  LanguageModelV3Prompt,
+  LanguageModelV3ToolResultOutput,
+  SharedV3Warning,
 } from '@ai-sdk/provider';
 import { OllamaChatPrompt } from './ollama-chat-prompt';
 
+/**
+ * How images returned by tools are sent to the model:
+ * - `tool`: as `images` on the tool message.
+ * - `user`: as `images` on a synthetic user message that follows the tool
+ *   messages, for models that ignore or reject images on tool messages.
+ */
+export type OllamaToolResultImageMode = 'tool' | 'user';
+
 export function convertToOllamaChatMessages({
   prompt,
   systemMessageMode = 'system',
+  toolResultImageMode = 'tool',
 }: {
-  prompt: LanguageModelV2Prompt;
+  prompt: LanguageModelV3Prompt;
   systemMessageMode?: 'system' | 'developer' | 'remove';
-}): OllamaChatPrompt {
+  toolResultImageMode?: OllamaToolResultImageMode;
+}): {
+  messages: OllamaChatPrompt;
+  warnings: Array<SharedV3Warning>;
+} {
   const messages: OllamaChatPrompt = [];
+  const warnings: Array<SharedV3Warning> = [];
 
   for (const { role, content } of prompt) {
     switch (role) {
@@ -47,7 +63,7 @@ export function convertToOllamaChatMessages({
         const userText = content.filter((part) => part.type === 'text').map((part) => part.text).join('');
         const images = content
           .filter((part) => part.type === 'file' && part.mediaType.startsWith('image/'))
-          .map((part) => (part as LanguageModelV2FilePart).data);
+          .map((part) => (part as LanguageModelV3FilePart).data);
 
         messages.push({
           role: 'user',
@@ -105,28 +121,43 @@ export function convertToOllamaChatMessages({
       }
 
       case 'tool': {
+        const toolImageMessages: OllamaChatPrompt = [];
+
         for (const toolResponse of content) {
-          const output = toolResponse.output;
+          if (toolResponse.type !== 'tool-result') {
+            // tool approval responses have no Ollama equivalent:
+            continue;
+          }
 
-          let contentValue: string;
-          switch (output.type) {
-            case 'text':
-            case 'error-text':
-              contentValue = output.value;
-              break;
-            case 'content':
-            case 'json':
-            case 'error-json':
-              contentValue = JSON.stringify(output.value);
-              break;
+          const { content: contentValue, images } = convertToolResultOutput(
+            toolResponse.output,
+            warnings,
+          );
+
+          if (images.length > 0 && toolResultImageMode === 'user') {
+            messages.push({
+              role: 'tool',
+              tool_call_id: toolResponse.toolCallId,
+              content: contentValue,
+            });
+            toolImageMessages.push({
+              role: 'user',
+              content: `Images returned by the ${toolResponse.toolName} tool:`,
+              images,
+            });
+            continue;
           }
 
           messages.push({
             role: 'tool',
             tool_call_id: toolResponse.toolCallId,
             content: contentValue,
+            ...(images.length > 0 && { images }),
           });
         }
+
+        // user messages must not separate tool results from each other:
+        messages.push(...toolImageMessages);
         break;
       }
 
@@ -137,5 +168,68 @@ export function convertToOllamaChatMessages({
     }
   }
 
-  return messages;
+  return { messages, warnings };
+}
+
+/**
+ * Converts a tool result output into the text content and images of an Ollama
+ * tool message. Images in `content` outputs are returned separately so that
+ * vision models can see them.
+ */
+function convertToolResultOutput(
+  output: LanguageModelV3ToolResultOutput,
+  warnings: Array<SharedV3Warning>,
+): {
+  content: string;
+  images: Array<string | URL>;
+} {
+  switch (output.type) {
+    case 'text':
+    case 'error-text':
+      return { content: output.value, images: [] };
+    case 'json':
+    case 'error-json':
+      return { content: JSON.stringify(output.value), images: [] };
+    case 'execution-denied':
+      return {
+        content: output.reason ?? 'The tool execution was denied.',
+        images: [],
+      };
+    case 'content': {
+      const texts: string[] = [];
+      const images: Array<string | URL> = [];
+
+      for (const part of output.value) {
+        switch (part.type) {
+          case 'text':
+            texts.push(part.text);
+            break;
+          case 'image-data':
+            images.push(part.data);
+            break;
+          case 'image-url':
+            images.push(new URL(part.url));
+            break;
+          case 'file-data':
+            if (part.mediaType.startsWith('image/')) {
+              images.push(part.data);
+            } else {
+              // the base64 data would only fill the context window:
+              texts.push(`[file: ${part.mediaType}]`);
+              warnings.push({
+                type: 'unsupported',
+                feature: 'tool result file',
+                details: `Files of type ${part.mediaType} are replaced with a placeholder.`,
+              });
+            }
+            break;
+          default:
+            texts.push(JSON.stringify(part));
+            break;
+        }
+      }
+
+      return { content: texts.join('\n'), images };
+    }
+  }
 }
@@ -0,0 +1,45 @@
+import { SharedV3Warning } from '@ai-sdk/provider';
+
+export type OllamaThinkLevel = 'low' | 'medium' | 'high';
+
+// Models that accept reasoning effort levels instead of a plain on/off switch.
+const THINK_LEVEL_MODEL_PREFIXES = ['gpt-oss'];
+
+export function supportsThinkLevels(modelId: string): boolean {
+  const baseModelId = modelId.split('/').pop() ?? modelId;
+  return THINK_LEVEL_MODEL_PREFIXES.some(prefix =>
+    baseModelId.startsWith(prefix),
+  );
+}
+
+/**
+ * Resolves the `think` request parameter. An explicit `think` setting takes
+ * precedence over `reasoningEffort`. Returns `undefined` when neither is set so
+ * that the model's default behavior is preserved.
+ */
+export function mapOllamaThink({
+  modelId,
+  think,
+  reasoningEffort,
+}: {
+  modelId: string;
+  think: boolean | OllamaThinkLevel | undefined;
+  reasoningEffort: OllamaThinkLevel | undefined;
+}): {
+  think: boolean | OllamaThinkLevel | undefined;
+  warnings: SharedV3Warning[];
+} {
+  const warnings: SharedV3Warning[] = [];
+  const value = think ?? reasoningEffort;
+
+  if (typeof value === 'string' && !supportsThinkLevels(modelId)) {
+    warnings.push({
+      type: 'other',
+      message: `The model ${modelId} only supports enabling or disabling thinking. The think level "${value}" is sent as think: true.`,
+    });
+
+    return { think: true, warnings };
+  }
+
+  return { think: value, warnings };
+}
@@ -65,6 +65,7 @@ export interface ChatCompletionToolMessage {
   role: 'tool';
   content: string;
   tool_call_id: string;
+  images?: Array<Uint8Array | string | URL>;
 }
 
 /**
@@ -0,0 +1,54 @@
+import { JSONObject } from '@ai-sdk/provider';
+
+/**
+ * Load durations above this threshold (in nanoseconds) indicate that the model
+ * had to be loaded into memory for the request.
+ */
+export const COLD_LOAD_THRESHOLD_NS = 250_000_000;
+
+/**
+ * Extracts the timing and throughput metrics that Ollama reports with the final
+ * response. Durations are in nanoseconds, as returned by Ollama.
+ */
+export function getOllamaMetrics({
+  total_duration,
+  load_duration,
+  prompt_eval_count,
+  prompt_eval_duration,
+  eval_count,
+  eval_duration,
+}: {
+  total_duration?: number | null;
+  load_duration?: number | null;
+  prompt_eval_count?: number | null;
+  prompt_eval_duration?: number | null;
+  eval_count?: number | null;
+  eval_duration?: number | null;
+}): JSONObject {
+  return {
+    totalDuration: total_duration ?? null,
+    loadDuration: load_duration ?? null,
+    promptEvalCount: prompt_eval_count ?? null,
+    promptEvalDuration: prompt_eval_duration ?? null,
+    evalCount: eval_count ?? null,
+    evalDuration: eval_duration ?? null,
+    promptTokensPerSecond: getTokensPerSecond(
+      prompt_eval_count,
+      prompt_eval_duration,
+    ),
+    generationTokensPerSecond: getTokensPerSecond(eval_count, eval_duration),
+    coldLoad:
+      load_duration != null ? load_duration > COLD_LOAD_THRESHOLD_NS : null,
+  };
+}
+
+function getTokensPerSecond(
+  count: number | null | undefined,
+  durationNs: number | null | undefined,
+): number | null {
+  if (count == null || durationNs == null || durationNs <= 0) {
+    return null;
+  }
+
+  return count / (durationNs / 1e9);
+}
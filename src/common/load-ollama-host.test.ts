@@ -0,0 +1,93 @@
+import { createTestServer } from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+import { normalizeOllamaHost } from './load-ollama-host';
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/api/tags': {},
+  'http://gpu-1:11434/api/tags': {},
+  'https://proxy.example.com/ollama/api/tags': {},
+});
+
+const tagsResponse = {
+  type: 'json-value' as const,
+  body: { models: [] },
+};
+
+describe('normalizeOllamaHost', () => {
+  it.each([
+    ['gpu-1', 'http://gpu-1:11434/api'],
+    ['gpu-1:8080', 'http://gpu-1:8080/api'],
+    [':11434', 'http://127.0.0.1:11434/api'],
+    ['0.0.0.0', 'http://0.0.0.0:11434/api'],
+    ['::1', 'http://[::1]:11434/api'],
+    ['[::1]:8080', 'http://[::1]:8080/api'],
+    ['http://gpu-1:11434', 'http://gpu-1:11434/api'],
+    ['https://ollama.com', 'https://ollama.com/api'],
+    ['https://proxy.example.com/ollama/', 'https://proxy.example.com/ollama/api'],
+    ['http://gpu-1:11434/api', 'http://gpu-1:11434/api'],
+    [' gpu-1:11434/api/ ', 'http://gpu-1:11434/api'],
+  ])('should normalize %j', (host, expected) => {
+    expect(normalizeOllamaHost(host)).toBe(expected);
+  });
+});
+
+describe('environment', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(() => {
+    for (const url of Object.keys(server.urls)) {
+      server.urls[url].response = tagsResponse;
+    }
+  });
+
+  it('should use the base URL from OLLAMA_HOST', async () => {
+    vi.stubEnv('OLLAMA_HOST', 'gpu-1');
+
+    await createOllama().models.list();
+
+    expect(server.urls['http://gpu-1:11434/api/tags'].calls).toHaveLength(1);
+  });
+
+  it('should prefer an explicit base URL over OLLAMA_HOST', async () => {
+    vi.stubEnv('OLLAMA_HOST', 'gpu-1');
+
+    await createOllama({
+      baseURL: 'https://proxy.example.com/ollama/api',
+    }).models.list();
+
+    expect(
+      server.urls['https://proxy.example.com/ollama/api/tags'].calls,
+    ).toHaveLength(1);
+  });
+
+  it('should send the OLLAMA_API_KEY as a bearer token', async () => {
+    vi.stubEnv('OLLAMA_API_KEY', 'env-key');
+
+    await createOllama().models.list();
+
+    expect(server.calls[0].requestHeaders.authorization).toBe('Bearer env-key');
+  });
+
+  it('should prefer an explicit API key and headers', async () => {
+    vi.stubEnv('OLLAMA_API_KEY', 'env-key');
+
+    await createOllama({ apiKey: 'explicit-key' }).models.list();
+    await createOllama({
+      apiKey: 'explicit-key',
+      headers: { Authorization: 'Basic abc' },
+    }).models.list();
+
+    expect(server.calls[0].requestHeaders.authorization).toBe(
+      'Bearer explicit-key',
+    );
+    expect(server.calls[1].requestHeaders.authorization).toBe('Basic abc');
+  });
+
+  it('should not send an authorization header without an API key', async () => {
+    await createOllama().models.list();
+
+    expect(server.calls[0].requestHeaders.authorization).toBeUndefined();
+  });
+});
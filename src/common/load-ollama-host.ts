@@ -0,0 +1,68 @@
+import { loadOptionalSetting } from '@ai-sdk/provider-utils';
+
+const DEFAULT_PORT = '11434';
+
+/**
+ * Loads the base URL from the `OLLAMA_HOST` environment variable, which is
+ * also used by the Ollama CLI. Returns `undefined` when the variable is not
+ * set or environment variables are not available, e.g. on edge runtimes.
+ */
+export function loadOllamaHost(): string | undefined {
+  const host = loadOptionalSetting({
+    settingValue: undefined,
+    environmentVariableName: 'OLLAMA_HOST',
+  });
+
+  return host != null && host.trim() !== ''
+    ? normalizeOllamaHost(host)
+    : undefined;
+}
+
+/**
+ * Converts an `OLLAMA_HOST` value into a base URL for the API calls. Like the
+ * Ollama CLI, it accepts a bare `host`, `host:port` or `:port` and defaults to
+ * the `http` scheme and port 11434. The `/api` suffix is added when missing.
+ *
+ * @example
+ * normalizeOllamaHost('gpu-1:11434'); // 'http://gpu-1:11434/api'
+ * normalizeOllamaHost('https://ollama.example.com'); // 'https://ollama.example.com/api'
+ */
+export function normalizeOllamaHost(host: string): string {
+  const value = host.trim();
+  const schemeIndex = value.indexOf('://');
+  const scheme = schemeIndex === -1 ? 'http' : value.slice(0, schemeIndex);
+  const rest = schemeIndex === -1 ? value : value.slice(schemeIndex + 3);
+
+  const pathIndex = rest.indexOf('/');
+  let hostPort = pathIndex === -1 ? rest : rest.slice(0, pathIndex);
+  const path = (pathIndex === -1 ? '' : rest.slice(pathIndex)).replace(
+    /\/+$/,
+    '',
+  );
+
+  // without a scheme, the default port applies (with a scheme, the scheme's):
+  if (schemeIndex === -1 && !hasPort(hostPort)) {
+    const hostname = isIPv6(hostPort) ? `[${hostPort}]` : hostPort;
+    hostPort = `${hostname}:${DEFAULT_PORT}`;
+  }
+
+  // e.g. `:11434`
+  if (hostPort.startsWith(':')) {
+    hostPort = `127.0.0.1${hostPort}`;
+  }
+
+  const apiPath = path.endsWith('/api') ? path : `${path}/api`;
+
+  return `${scheme}://${hostPort}${apiPath}`;
+}
+
+function hasPort(hostPort: string): boolean {
+  return hostPort.startsWith('[')
+    ? /\]:\d+$/.test(hostPort)
+    : !isIPv6(hostPort) && /:\d+$/.test(hostPort);
+}
+
+// unbracketed IPv6 addresses contain more than one colon, e.g. `::1`:
+function isIPv6(hostPort: string): boolean {
+  return !hostPort.startsWith('[') && hostPort.split(':').length > 2;
+}
@@ -0,0 +1,28 @@
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges two option objects. Nested objects are merged recursively,
+ * all other values (including arrays) from `overrides` replace the defaults.
+ */
+export function mergeOptions<T extends Record<string, unknown>>(
+  defaults: T,
+  overrides: T,
+): T {
+  const result: Record<string, unknown> = { ...defaults };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const defaultValue = result[key];
+    result[key] =
+      isPlainObject(defaultValue) && isPlainObject(value)
+        ? mergeOptions(defaultValue, value)
+        : value;
+  }
+
+  return result as T;
+}
@@ -1,14 +1,42 @@
-import { extractResponseHeaders, ParseResult, ResponseHandler } from '@ai-sdk/provider-utils';
-import { z } from 'zod';
+import { APICallError } from '@ai-sdk/provider';
+import {
+  extractResponseHeaders,
+  ParseResult,
+  ResponseHandler,
+  safeParseJSON,
+  safeValidateTypes,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod/v4';
+import {
+  classifyOllamaError,
+  getOllamaErrorMessage,
+  ollamaErrorDataSchema,
+} from '../completion/ollama-error';
+import { OllamaStreamTimeout } from './ollama-stream-timeout';
+
+/**
+ * Result of parsing a single NDJSON line. In addition to JSON parse and
+ * validation failures, failed results carry an `APICallError` when the server
+ * reported an error in the stream, e.g. `{"error":"..."}` after a runner crash.
+ */
+export type NdjsonParseResult<T> =
+  | ParseResult<T>
+  | { success: false; error: APICallError; rawValue: unknown };
 
 /**
  * Creates a response handler for NDJSON (Newline-delimited JSON) streams.
  * This replaces the removed createJsonStreamResponseHandler from @ai-sdk/provider-utils.
+ *
+ * Lines that cannot be parsed or validated are emitted as failed results that
+ * carry the raw line. Trailing data without a final newline is parsed as well,
+ * so a truncated stream surfaces as a failed result. When a stream timeout
+ * fires, the reader is cancelled and the timeout error is the last result.
  */
 export function createNdjsonStreamResponseHandler<T>(
-  schema: z.ZodSchema<T>
-): ResponseHandler<ReadableStream<ParseResult<T>>> {
-  return async ({ response }) => {
+  schema: z.ZodType<T>,
+  streamTimeout?: OllamaStreamTimeout,
+): ResponseHandler<ReadableStream<NdjsonParseResult<T>>> {
+  return async ({ response, url, requestBodyValues }) => {
     const responseHeaders = extractResponseHeaders(response);
 
     if (response.body == null) {
@@ -19,21 +47,65 @@ export function createNdjsonStreamResponseHandler<T>(
     const decoder = new TextDecoder();
     let buffer = '';
 
-    const stream = new ReadableStream<ParseResult<T>>({
+    const parseLine = async (line: string): Promise<NdjsonParseResult<T>> => {
+      const parsed = await safeParseJSON({ text: line });
+
+      if (!parsed.success) {
+        return { success: false, error: parsed.error, rawValue: line };
+      }
+
+      const errorData = await safeValidateTypes({
+        value: parsed.value,
+        schema: ollamaErrorDataSchema,
+      });
+
+      if (errorData.success) {
+        return {
+          success: false,
+          error: classifyOllamaError(
+            new APICallError({
+              message: getOllamaErrorMessage(errorData.value),
+              url,
+              requestBodyValues,
+              statusCode: response.status,
+              responseHeaders,
+              responseBody: line,
+              data: errorData.value,
+            }),
+          ),
+          rawValue: parsed.value,
+        };
+      }
+
+      return safeValidateTypes({ value: parsed.value, schema });
+    };
+
+    const stream = new ReadableStream<NdjsonParseResult<T>>({
       async pull(controller) {
         while (true) {
-          const { done, value } = await reader.read();
+          const { done, value } =
+            streamTimeout != null
+              ? await streamTimeout.read(reader)
+              : await reader.read();
+
+          if (streamTimeout?.error != null) {
+            controller.enqueue({
+              success: false,
+              error: streamTimeout.error,
+              rawValue: buffer,
+            });
+            controller.close();
+            return;
+          }
 
           if (done) {
-            // Process any remaining data in buffer
+            buffer += decoder.decode();
+
+            // Data without a final newline is either the last object or
+            // a truncated one, which is reported as a failed result:
             if (buffer.trim()) {
-              try {
-                const parsed = JSON.parse(buffer.trim());
-                const validated = schema.parse(parsed);
-                controller.enqueue({success: true, value: validated, rawValue: validated});
-              } catch {
-                // Ignore parse errors for incomplete data at end
-              }
+              controller.enqueue(await parseLine(buffer.trim()));
+              buffer = '';
             }
             controller.close();
             return;
@@ -43,23 +115,23 @@ export function createNdjsonStreamResponseHandler<T>(
           const lines = buffer.split('\n');
           buffer = lines.pop() || '';
 
+          let hasEnqueued = false;
           for (const line of lines) {
             const trimmedLine = line.trim();
             if (trimmedLine) {
-              try {
-                const parsed = JSON.parse(trimmedLine);
-                const validated = schema.parse(parsed);
-                controller.enqueue({success:true, value: validated, rawValue: validated});
-              } catch (error) {
-                // Skip invalid JSON lines
-                console.warn('Failed to parse NDJSON line:', error);
-              }
+              controller.enqueue(await parseLine(trimmedLine));
+              hasEnqueued = true;
             }
           }
+
+          if (hasEnqueued) {
+            return;
+          }
         }
       },
-      cancel() {
-        reader.cancel();
+      cancel(reason) {
+        streamTimeout?.dispose();
+        return reader.cancel(reason);
       },
     });
 
@@ -0,0 +1,179 @@
+import {
+  convertReadableStreamToArray,
+  createTestServer,
+} from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+import { OllamaQueueTimeoutError } from '../completion/ollama-error';
+import { OllamaConcurrencyLimiter } from './ollama-concurrency-limiter';
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/api/chat': {},
+  'http://127.0.0.1:11434/api/embed': {},
+});
+
+const prompt = [
+  { role: 'user' as const, content: [{ type: 'text' as const, text: 'Hello' }] },
+];
+
+const requestOptions = {
+  url: 'http://127.0.0.1:11434/api/chat',
+  requestBodyValues: {},
+};
+
+describe('OllamaConcurrencyLimiter', () => {
+  it('should queue requests above the host limit', async () => {
+    const limiter = new OllamaConcurrencyLimiter({ maxRequestsPerHost: 1 });
+    const started: string[] = [];
+
+    const first = await limiter.acquire({ modelId: 'a', ...requestOptions });
+    const second = limiter
+      .acquire({ modelId: 'b', ...requestOptions })
+      .then(slot => {
+        started.push('second');
+        return slot;
+      });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(started).toStrictEqual([]);
+
+    first.release();
+
+    expect((await second).queueWait).toBeGreaterThan(0);
+    expect(started).toStrictEqual(['second']);
+  });
+
+  it('should start queued requests by priority', async () => {
+    const limiter = new OllamaConcurrencyLimiter({ maxRequestsPerHost: 1 });
+    const started: string[] = [];
+
+    const first = await limiter.acquire({ modelId: 'a', ...requestOptions });
+    const acquire = (name: string, priority: number) =>
+      limiter
+        .acquire({ modelId: 'a', priority, ...requestOptions })
+        .then(slot => {
+          started.push(name);
+          slot.release();
+        });
+
+    const queued = [acquire('low', 0), acquire('high', 10), acquire('low-2', 0)];
+
+    first.release();
+    await Promise.all(queued);
+
+    expect(started).toStrictEqual(['high', 'low', 'low-2']);
+  });
+
+  it('should not block other models when a model is at its limit', async () => {
+    const limiter = new OllamaConcurrencyLimiter({ maxRequestsPerModel: 1 });
+
+    const first = await limiter.acquire({ modelId: 'a', ...requestOptions });
+    const blocked = limiter.acquire({
+      modelId: 'a',
+      maxQueueWait: 20,
+      ...requestOptions,
+    });
+    const other = await limiter.acquire({ modelId: 'b', ...requestOptions });
+
+    expect(other.queueWait).toBeLessThan(20);
+    await expect(blocked).rejects.toThrow(OllamaQueueTimeoutError);
+
+    first.release();
+    other.release();
+  });
+
+  it('should reject a queued request when the abort signal fires', async () => {
+    const limiter = new OllamaConcurrencyLimiter({ maxRequestsPerHost: 1 });
+    const abortController = new AbortController();
+
+    const first = await limiter.acquire({ modelId: 'a', ...requestOptions });
+    const queued = limiter.acquire({
+      modelId: 'a',
+      abortSignal: abortController.signal,
+      ...requestOptions,
+    });
+
+    abortController.abort(new Error('aborted'));
+    await expect(queued).rejects.toThrow('aborted');
+
+    // the aborted request no longer occupies the queue:
+    first.release();
+    const next = await limiter.acquire({ modelId: 'a', ...requestOptions });
+    expect(next.queueWait).toBeLessThan(10);
+  });
+
+  it('should reject with a queue timeout after the maximum queue wait', async () => {
+    const limiter = new OllamaConcurrencyLimiter({
+      maxRequestsPerHost: 1,
+      maxQueueWait: 10,
+    });
+
+    await limiter.acquire({ modelId: 'a', ...requestOptions });
+
+    const error = await limiter
+      .acquire({ modelId: 'a', ...requestOptions })
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(OllamaQueueTimeoutError);
+    expect(error).toMatchObject({ reason: 'queue-timeout', timeout: 10 });
+  });
+});
+
+describe('concurrency', () => {
+  it('should report the queue wait in the provider metadata', async () => {
+    const provider = createOllama({ concurrency: { maxRequestsPerHost: 1 } });
+
+    server.urls['http://127.0.0.1:11434/api/embed'].response = {
+      type: 'json-value',
+      body: {
+        model: 'nomic-embed-text',
+        embeddings: [[0.1, 0.2]],
+        total_duration: 1,
+        load_duration: 1,
+        prompt_eval_count: 2,
+      },
+    };
+
+    const result = await provider
+      .embedding('nomic-embed-text')
+      .doEmbed({ values: ['Hello'] });
+
+    expect(result.providerMetadata?.ollama?.queueWait).toEqual(
+      expect.any(Number),
+    );
+  });
+
+  it('should hold the slot until a stream has been consumed', async () => {
+    const provider = createOllama({ concurrency: { maxRequestsPerModel: 1 } });
+
+    server.urls['http://127.0.0.1:11434/api/chat'].response = {
+      type: 'stream-chunks',
+      chunks: [
+        `{"model":"llama3.2","created_at":"2024-01-01T00:00:00.000Z","message":{"role":"assistant","content":"Hello"},"done":false}\n`,
+        `{"model":"llama3.2","created_at":"2024-01-01T00:00:00.000Z","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop"}\n`,
+      ],
+    };
+
+    const first = await provider('llama3.2').doStream({ prompt });
+    let isSecondStarted = false;
+    const second = provider('llama3.2')
+      .doStream({ prompt })
+      .then(result => {
+        isSecondStarted = true;
+        return result;
+      });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(isSecondStarted).toBe(false);
+    expect(server.urls['http://127.0.0.1:11434/api/chat'].calls).toHaveLength(1);
+
+    await convertReadableStreamToArray(first.stream);
+
+    const parts = await convertReadableStreamToArray((await second).stream);
+    const finish = parts.find(part => part.type === 'finish');
+
+    expect(finish).toMatchObject({
+      providerMetadata: { ollama: { queueWait: expect.any(Number) } },
+    });
+    expect(server.urls['http://127.0.0.1:11434/api/chat'].calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,326 @@
+import { z } from 'zod/v4';
+import { OllamaQueueTimeoutError } from '../completion/ollama-error';
+
+export interface OllamaConcurrencySettings {
+  /**
+   * Maximum number of requests in flight per Ollama server, e.g. the server's
+   * `OLLAMA_NUM_PARALLEL`. With a pool, requests queue once all servers are at
+   * the limit, and the pool routes each request to a server below the limit.
+   */
+  maxRequestsPerHost?: number;
+
+  /**
+   * Maximum number of requests in flight per model.
+   */
+  maxRequestsPerModel?: number;
+
+  /**
+   * Maximum time in milliseconds that a request waits in the queue before it
+   * fails with an `OllamaQueueTimeoutError`. Unlimited by default.
+   */
+  maxQueueWait?: number;
+}
+
+export const ollamaQueueOptions = z.object({
+  /**
+   * Requests with a higher priority leave the queue first. Defaults to 0.
+   */
+  priority: z.number().optional(),
+
+  /**
+   * Maximum time in milliseconds that the request waits in the queue.
+   * Overrides the provider's `concurrency.maxQueueWait` setting.
+   */
+  maxQueueWait: z.number().positive().optional(),
+});
+
+export type OllamaQueueOptions = z.infer<typeof ollamaQueueOptions>;
+
+interface QueuedRequest {
+  modelId: string;
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * A slot of the concurrency limiter. It must be released once the request has
+ * completed, including the consumption of a streamed response.
+ */
+export interface OllamaConcurrencySlot {
+  /**
+   * Time in milliseconds that the request waited in the queue.
+   */
+  queueWait: number;
+
+  release: () => void;
+}
+
+/**
+ * Limits the number of requests in flight per server and per model. Requests
+ * above the limits wait in a queue that is ordered by priority and then by
+ * arrival.
+ */
+export class OllamaConcurrencyLimiter {
+  private readonly maxRequests: number;
+  private readonly maxRequestsPerModel: number;
+  private readonly maxQueueWait: number | undefined;
+  private readonly queue: QueuedRequest[] = [];
+  private readonly inFlightByModel = new Map<string, number>();
+  private inFlight = 0;
+
+  constructor(
+    settings: OllamaConcurrencySettings,
+    { hostCount = 1 }: { hostCount?: number } = {},
+  ) {
+    this.maxRequests = (settings.maxRequestsPerHost ?? Infinity) * hostCount;
+    this.maxRequestsPerModel = settings.maxRequestsPerModel ?? Infinity;
+    this.maxQueueWait = settings.maxQueueWait;
+  }
+
+  /**
+   * Waits for a free slot. Rejects when the abort signal fires or the maximum
+   * queue wait is exceeded while the request is queued.
+   */
+  async acquire({
+    modelId,
+    priority = 0,
+    maxQueueWait = this.maxQueueWait,
+    abortSignal,
+    url,
+    requestBodyValues,
+  }: {
+    modelId: string;
+    priority?: number;
+    maxQueueWait?: number;
+    abortSignal?: AbortSignal;
+    url: string;
+    requestBodyValues: unknown;
+  }): Promise<OllamaConcurrencySlot> {
+    if (abortSignal?.aborted) {
+      throw abortSignal.reason;
+    }
+
+    const enqueuedAt = Date.now();
+
+    await new Promise<void>((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        abortSignal?.removeEventListener('abort', onAbort);
+      };
+
+      const cancel = (error: unknown) => {
+        this.queue.splice(this.queue.indexOf(request), 1);
+        cleanup();
+        reject(error);
+      };
+
+      const onAbort = () => cancel(abortSignal?.reason);
+
+      const request: QueuedRequest = {
+        modelId,
+        priority,
+        start: () => {
+          cleanup();
+          resolve();
+        },
+      };
+
+      if (maxQueueWait != null) {
+        timeoutId = setTimeout(
+          () =>
+            cancel(
+              new OllamaQueueTimeoutError({
+                timeout: maxQueueWait,
+                url,
+                requestBodyValues,
+              }),
+            ),
+          maxQueueWait,
+        );
+      }
+      abortSignal?.addEventListener('abort', onAbort);
+
+      this.enqueue(request);
+      this.dispatch();
+    });
+
+    let isReleased = false;
+
+    return {
+      queueWait: Date.now() - enqueuedAt,
+      release: () => {
+        if (!isReleased) {
+          isReleased = true;
+          this.finish(modelId);
+        }
+      },
+    };
+  }
+
+  private enqueue(request: QueuedRequest) {
+    // behind all queued requests with the same or a higher priority:
+    const index = this.queue.findIndex(
+      queuedRequest => queuedRequest.priority < request.priority,
+    );
+
+    if (index === -1) {
+      this.queue.push(request);
+    } else {
+      this.queue.splice(index, 0, request);
+    }
+  }
+
+  private dispatch() {
+    // requests for models at their limit do not block other models:
+    let i = 0;
+    while (i < this.queue.length && this.inFlight < this.maxRequests) {
+      const request = this.queue[i]!;
+      const modelInFlight = this.inFlightByModel.get(request.modelId) ?? 0;
+
+      if (modelInFlight >= this.maxRequestsPerModel) {
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      this.inFlight++;
+      this.inFlightByModel.set(request.modelId, modelInFlight + 1);
+      request.start();
+    }
+  }
+
+  private finish(modelId: string) {
+    const modelInFlight = this.inFlightByModel.get(modelId)! - 1;
+
+    if (modelInFlight === 0) {
+      this.inFlightByModel.delete(modelId);
+    } else {
+      this.inFlightByModel.set(modelId, modelInFlight);
+    }
+
+    this.inFlight--;
+    this.dispatch();
+  }
+}
+
+type WithQueueWait<T> = T & { queueWait?: number };
+
+type ConcurrencyLimitOptions<T> = {
+  limiter: OllamaConcurrencyLimiter | undefined;
+  modelId: string;
+  queue: OllamaQueueOptions | undefined;
+  abortSignal: AbortSignal | undefined;
+  url: string;
+  requestBodyValues: unknown;
+  request: () => PromiseLike<T>;
+};
+
+/**
+ * Sends the request once the limiter has a free slot. `queueWait` is only set
+ * when a limiter is configured.
+ */
+export async function withConcurrencyLimit<T>({
+  limiter,
+  request,
+  ...options
+}: ConcurrencyLimitOptions<T>): Promise<WithQueueWait<T>> {
+  if (limiter == null) {
+    return (await request()) as WithQueueWait<T>;
+  }
+
+  const slot = await acquireSlot(limiter, options);
+
+  try {
+    return { ...(await request()), queueWait: slot.queueWait };
+  } finally {
+    slot.release();
+  }
+}
+
+/**
+ * Like `withConcurrencyLimit`, but keeps the slot until the response stream
+ * has been consumed, has failed or was cancelled.
+ */
+export async function withStreamConcurrencyLimit<
+  RESPONSE extends { value: ReadableStream<any> },
+>({
+  limiter,
+  request,
+  ...options
+}: ConcurrencyLimitOptions<RESPONSE>): Promise<WithQueueWait<RESPONSE>> {
+  if (limiter == null) {
+    return (await request()) as WithQueueWait<RESPONSE>;
+  }
+
+  const slot = await acquireSlot(limiter, options);
+
+  try {
+    const response = await request();
+
+    return {
+      ...response,
+      value: releaseWhenDone(response.value, slot.release),
+      queueWait: slot.queueWait,
+    } as WithQueueWait<RESPONSE>;
+  } catch (error) {
+    slot.release();
+    throw error;
+  }
+}
+
+/**
+ * Provider metadata with the queue wait time, if the request was queued.
+ */
+export function getQueueMetadata(queueWait: number | undefined) {
+  return queueWait != null ? { queueWait } : {};
+}
+
+function acquireSlot(
+  limiter: OllamaConcurrencyLimiter,
+  {
+    modelId,
+    queue,
+    abortSignal,
+    url,
+    requestBodyValues,
+  }: Omit<ConcurrencyLimitOptions<unknown>, 'limiter' | 'request'>,
+): Promise<OllamaConcurrencySlot> {
+  return limiter.acquire({
+    modelId,
+    priority: queue?.priority,
+    maxQueueWait: queue?.maxQueueWait,
+    abortSignal,
+    url,
+    requestBodyValues,
+  });
+}
+
+function releaseWhenDone<T>(
+  stream: ReadableStream<T>,
+  release: () => void,
+): ReadableStream<T> {
+  const reader = stream.getReader();
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -1,4 +1,12 @@
 import { FetchFunction } from '@ai-sdk/provider-utils';
+import type { OllamaImageDownloadSettings } from '../adaptors/convert-ollama-images-to-base64';
+import type { OllamaAutoPull } from '../management/ollama-auto-pull';
+import type { OllamaConcurrencyLimiter } from './ollama-concurrency-limiter';
+import type { OllamaRetryPolicy } from './ollama-retry';
+import type {
+  OllamaModelLoadTimes,
+  OllamaStreamTimeoutSettings,
+} from './ollama-stream-timeout';
 
 export type OllamaConfig = {
   provider: string;
@@ -6,4 +14,10 @@ export type OllamaConfig = {
   headers: () => Record<string, string | undefined>;
   fetch?: FetchFunction;
   generateId?: () => string;
+  autoPull?: OllamaAutoPull;
+  imageDownload?: OllamaImageDownloadSettings;
+  streamTimeouts?: OllamaStreamTimeoutSettings;
+  modelLoadTimes?: OllamaModelLoadTimes;
+  retry?: OllamaRetryPolicy;
+  concurrency?: OllamaConcurrencyLimiter;
 };
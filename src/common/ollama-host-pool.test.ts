@@ -0,0 +1,430 @@
+import { createTestServer } from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+
+// sha256 of the bytes of 'hello'
+const helloDigest =
+  'sha256:2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+
+const server = createTestServer({
+  'http://host-a:11434/api/chat': {},
+  'http://host-a:11434/api/ps': {},
+  'http://host-a:11434/api/tags': {},
+  'http://host-a:11434/api/generate': {},
+  'http://host-a:11434/api/create': {},
+  [`http://host-a:11434/api/blobs/${helloDigest}`]: {},
+  'http://host-b:11434/api/chat': {},
+  'http://host-b:11434/api/ps': {},
+  'http://host-b:11434/api/tags': {},
+  'http://host-b:11434/api/generate': {},
+  'http://host-b:11434/api/create': {},
+  [`http://host-b:11434/api/blobs/${helloDigest}`]: {},
+});
+
+const chatResponse = {
+  type: 'json-value' as const,
+  body: {
+    model: 'llama3.2',
+    created_at: '2024-01-01T00:00:00.000Z',
+    done: true,
+    done_reason: 'stop',
+    message: { role: 'assistant', content: 'Hello!' },
+    prompt_eval_count: 10,
+    eval_count: 20,
+  },
+};
+
+const unavailable = {
+  type: 'error' as const,
+  status: 503,
+  body: { error: 'server busy, please try again' },
+};
+
+const modelNotFound = {
+  type: 'error' as const,
+  status: 404,
+  body: { error: 'model "llama3.2" not found, try pulling it first' },
+};
+
+const localModel = {
+  model: 'llama3.2:latest',
+  modified_at: '2025-01-01T00:00:00.000Z',
+  size: 2019393189,
+  digest: 'a80c4f17acd5',
+};
+
+const runningModel = {
+  model: 'qwen3:latest',
+  size: 5137025024,
+  digest: 'a80c4f17acd5',
+  expires_at: '2025-01-01T00:05:00.000Z',
+  size_vram: 5137025024,
+};
+
+const noRunningModels = {
+  type: 'json-value' as const,
+  body: { models: [] },
+};
+
+const loadResponse = {
+  type: 'json-value' as const,
+  body: {
+    model: 'llama3.2',
+    created_at: '2025-01-01T00:00:00.000Z',
+    response: '',
+    done: true,
+    done_reason: 'load',
+  },
+};
+
+const prompt = [
+  { role: 'user' as const, content: [{ type: 'text' as const, text: 'Hello' }] },
+];
+
+const baseURLs = ['http://host-a:11434/api', 'http://host-b:11434/api'];
+
+describe('pool', () => {
+  beforeEach(() => {
+    server.urls['http://host-a:11434/api/chat'].response = chatResponse;
+    server.urls['http://host-b:11434/api/chat'].response = chatResponse;
+  });
+
+  it('should distribute requests round-robin', async () => {
+    const provider = createOllama({ pool: { baseURLs } });
+
+    for (let i = 0; i < 4; i++) {
+      await provider('llama3.2').doGenerate({ prompt });
+    }
+
+    expect(server.urls['http://host-a:11434/api/chat'].calls).toHaveLength(2);
+    expect(server.urls['http://host-b:11434/api/chat'].calls).toHaveLength(2);
+  });
+
+  it('should fail over to the next server on a 503 response', async () => {
+    const provider = createOllama({ pool: { baseURLs } });
+
+    server.urls['http://host-a:11434/api/chat'].response = unavailable;
+
+    const result = await provider('llama3.2').doGenerate({ prompt });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello!' }]);
+    expect(server.urls['http://host-a:11434/api/chat'].calls).toHaveLength(1);
+    expect(server.urls['http://host-b:11434/api/chat'].calls).toHaveLength(1);
+  });
+
+  it('should fail over to the next server on a network error', async () => {
+    const provider = createOllama({
+      pool: { baseURLs: ['http://host-c:11434/api', ...baseURLs] },
+      fetch: async (input, init) => {
+        if (String(input).startsWith('http://host-c:11434')) {
+          throw new TypeError('fetch failed');
+        }
+        return fetch(input, init);
+      },
+    });
+
+    const result = await provider('llama3.2').doGenerate({ prompt });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello!' }]);
+    expect(server.urls['http://host-a:11434/api/chat'].calls).toHaveLength(1);
+  });
+
+  it('should eject a server after repeated failures', async () => {
+    const provider = createOllama({ pool: { baseURLs, maxFailures: 2 } });
+
+    server.urls['http://host-a:11434/api/chat'].response = unavailable;
+
+    for (let i = 0; i < 6; i++) {
+      await provider('llama3.2').doGenerate({ prompt });
+    }
+
+    // host-a is tried first on every other request until it is ejected:
+    expect(server.urls['http://host-a:11434/api/chat'].calls).toHaveLength(2);
+    expect(server.urls['http://host-b:11434/api/chat'].calls).toHaveLength(6);
+  });
+
+  it('should return the last failure when all servers fail', async () => {
+    const provider = createOllama({ pool: { baseURLs } });
+
+    server.urls['http://host-a:11434/api/chat'].response = unavailable;
+    server.urls['http://host-b:11434/api/chat'].response = unavailable;
+
+    await expect(
+      provider('llama3.2').doGenerate({ prompt }),
+    ).rejects.toMatchObject({ statusCode: 503 });
+  });
+
+  it('should reject with the abort reason when the signal is already aborted', async () => {
+    const provider = createOllama({ pool: { baseURLs } });
+    const abortController = new AbortController();
+    abortController.abort();
+
+    await expect(
+      provider('llama3.2').doGenerate({
+        prompt,
+        abortSignal: abortController.signal,
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(server.calls).toHaveLength(0);
+  });
+
+  it('should prefer servers that are running the model', async () => {
+    const provider = createOllama({
+      pool: { baseURLs, strategy: 'model-affinity' },
+    });
+
+    server.urls['http://host-a:11434/api/ps'].response = {
+      type: 'json-value',
+      body: { models: [{ name: 'qwen3:latest', model: 'qwen3:latest' }] },
+    };
+    server.urls['http://host-b:11434/api/ps'].response = {
+      type: 'json-value',
+      body: { models: [{ name: 'llama3.2:latest', model: 'llama3.2:latest' }] },
+    };
+
+    for (let i = 0; i < 3; i++) {
+      await provider('llama3.2').doGenerate({ prompt });
+    }
+
+    expect(server.urls['http://host-a:11434/api/chat'].calls).toHaveLength(0);
+    expect(server.urls['http://host-b:11434/api/chat'].calls).toHaveLength(3);
+    // the running models are cached:
+    expect(server.urls['http://host-b:11434/api/ps'].calls).toHaveLength(1);
+  });
+
+  it('should send the provider headers to /api/ps', async () => {
+    const provider = createOllama({
+      pool: { baseURLs, strategy: 'model-affinity' },
+      apiKey: 'test-key',
+      headers: { 'X-Custom': 'value' },
+    });
+
+    server.urls['http://host-a:11434/api/ps'].response = {
+      type: 'json-value',
+      body: { models: [] },
+    };
+    server.urls['http://host-b:11434/api/ps'].response = {
+      type: 'json-value',
+      body: { models: [] },
+    };
+
+    await provider('llama3.2').doGenerate({ prompt });
+
+    expect(
+      server.urls['http://host-a:11434/api/ps'].calls[0]!.requestHeaders,
+    ).toMatchObject({ authorization: 'Bearer test-key', 'x-custom': 'value' });
+  });
+
+  it('should route without affinity when /api/ps hangs', async () => {
+    const provider = createOllama({
+      pool: { baseURLs, strategy: 'model-affinity' },
+      fetch: (input, init) =>
+        String(input).endsWith('/ps')
+          ? new Promise((_, reject) =>
+              init?.signal?.addEventListener('abort', () =>
+                reject(init.signal!.reason),
+              ),
+            )
+          : fetch(input, init),
+    });
+
+    // the `/api/ps` requests time out after 2 seconds:
+    const result = await provider('llama3.2').doGenerate({ prompt });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello!' }]);
+  });
+
+  it('should never exceed maxRequestsPerHost on a single server', async () => {
+    const inFlight: Record<string, number> = {};
+    const maxInFlight: Record<string, number> = {};
+
+    const provider = createOllama({
+      pool: { baseURLs, strategy: 'model-affinity' },
+      concurrency: { maxRequestsPerHost: 1 },
+      fetch: async (input, init) => {
+        const host = new URL(String(input)).host;
+
+        if (String(input).endsWith('/ps')) {
+          return fetch(input, init);
+        }
+
+        inFlight[host] = (inFlight[host] ?? 0) + 1;
+        maxInFlight[host] = Math.max(maxInFlight[host] ?? 0, inFlight[host]);
+
+        try {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return await fetch(input, init);
+        } finally {
+          inFlight[host]--;
+        }
+      },
+    });
+
+    // host-b runs the model, so affinity would send every request there:
+    server.urls['http://host-a:11434/api/ps'].response = {
+      type: 'json-value',
+      body: { models: [] },
+    };
+    server.urls['http://host-b:11434/api/ps'].response = {
+      type: 'json-value',
+      body: { models: [{ name: 'llama3.2:latest', model: 'llama3.2:latest' }] },
+    };
+
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        provider('llama3.2').doGenerate({ prompt }),
+      ),
+    );
+
+    expect(maxInFlight).toStrictEqual({
+      'host-a:11434': 1,
+      'host-b:11434': 1,
+    });
+    expect(server.urls['http://host-a:11434/api/chat'].calls.length).toBeGreaterThan(0);
+    expect(server.urls['http://host-b:11434/api/chat'].calls.length).toBeGreaterThan(0);
+  });
+
+  it('should fail over to another server on a model-not-found response with model-affinity', async () => {
+    const provider = createOllama({
+      pool: { baseURLs, strategy: 'model-affinity' },
+    });
+
+    server.urls['http://host-a:11434/api/ps'].response = noRunningModels;
+    server.urls['http://host-b:11434/api/ps'].response = noRunningModels;
+    server.urls['http://host-a:11434/api/chat'].response = modelNotFound;
+
+    const result = await provider('llama3.2').doGenerate({ prompt });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello!' }]);
+    expect(server.urls['http://host-a:11434/api/chat'].calls).toHaveLength(1);
+    expect(server.urls['http://host-b:11434/api/chat'].calls).toHaveLength(1);
+  });
+
+  it('should return a model-not-found response without model-affinity', async () => {
+    const provider = createOllama({ pool: { baseURLs } });
+
+    server.urls['http://host-a:11434/api/chat'].response = modelNotFound;
+
+    await expect(
+      provider('llama3.2').doGenerate({ prompt }),
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(server.urls['http://host-b:11434/api/chat'].calls).toHaveLength(0);
+  });
+
+  describe('management calls', () => {
+    it('should combine the models of all servers', async () => {
+      const provider = createOllama({ pool: { baseURLs } });
+
+      server.urls['http://host-a:11434/api/tags'].response = {
+        type: 'json-value',
+        body: { models: [{ ...localModel, name: 'llama3.2:latest' }] },
+      };
+      server.urls['http://host-b:11434/api/tags'].response = {
+        type: 'json-value',
+        body: { models: [{ ...localModel, name: 'qwen3:latest' }] },
+      };
+      server.urls['http://host-a:11434/api/ps'].response = noRunningModels;
+      server.urls['http://host-b:11434/api/ps'].response = {
+        type: 'json-value',
+        body: { models: [{ ...runningModel, name: 'qwen3:latest' }] },
+      };
+
+      const models = await provider.models.list();
+      const runningModels = await provider.models.listRunning();
+
+      expect(models.map(model => model.name)).toStrictEqual([
+        'llama3.2:latest',
+        'qwen3:latest',
+      ]);
+      expect(runningModels.map(model => model.name)).toStrictEqual([
+        'qwen3:latest',
+      ]);
+    });
+
+    it('should send calls with a host to that server only', async () => {
+      const provider = createOllama({ pool: { baseURLs } });
+
+      server.urls['http://host-b:11434/api/tags'].response = {
+        type: 'json-value',
+        body: { models: [] },
+      };
+
+      await provider.models.list({ host: 'http://host-b:11434/api/' });
+
+      expect(server.urls['http://host-a:11434/api/tags'].calls).toHaveLength(0);
+      expect(server.urls['http://host-b:11434/api/tags'].calls).toHaveLength(1);
+    });
+
+    it('should reject a host that is not in the pool', async () => {
+      const provider = createOllama({ pool: { baseURLs } });
+
+      await expect(
+        provider.models.list({ host: 'http://host-c:11434/api' }),
+      ).rejects.toThrow(
+        'The Ollama pool has no server with the URL http://host-c:11434/api.',
+      );
+    });
+
+    it('should preload and unload a model on every server', async () => {
+      const provider = createOllama({ pool: { baseURLs } });
+
+      server.urls['http://host-a:11434/api/generate'].response = loadResponse;
+      server.urls['http://host-b:11434/api/generate'].response = loadResponse;
+
+      await provider.preload('llama3.2');
+      await provider.unload('llama3.2');
+
+      expect(
+        server.urls['http://host-a:11434/api/generate'].calls,
+      ).toHaveLength(2);
+      expect(
+        server.urls['http://host-b:11434/api/generate'].calls,
+      ).toHaveLength(2);
+    });
+
+    it('should check and upload a blob on each server', async () => {
+      const provider = createOllama({ pool: { baseURLs } });
+
+      server.urls[`http://host-a:11434/api/blobs/${helloDigest}`].response = {
+        type: 'json-value',
+      };
+      server.urls[`http://host-b:11434/api/blobs/${helloDigest}`].responses = [
+        { type: 'error', status: 404, body: {} },
+        { type: 'json-value', status: 201 },
+      ];
+
+      const digest = await provider.models.uploadBlob(
+        new TextEncoder().encode('hello'),
+      );
+
+      expect(digest).toBe(helloDigest);
+      expect(
+        server.urls[`http://host-a:11434/api/blobs/${helloDigest}`].calls.map(
+          call => call.requestMethod,
+        ),
+      ).toStrictEqual(['HEAD']);
+      expect(
+        server.urls[`http://host-b:11434/api/blobs/${helloDigest}`].calls.map(
+          call => call.requestMethod,
+        ),
+      ).toStrictEqual(['HEAD', 'POST']);
+    });
+
+    it('should create a model on the given server', async () => {
+      const provider = createOllama({ pool: { baseURLs } });
+
+      server.urls['http://host-b:11434/api/create'].response = {
+        type: 'stream-chunks',
+        chunks: ['{"status":"success"}\n'],
+      };
+
+      await provider.models.create(
+        'my-model',
+        { files: { 'model.gguf': helloDigest } },
+        { host: 'http://host-b:11434/api' },
+      );
+
+      expect(server.urls['http://host-a:11434/api/create'].calls).toHaveLength(0);
+      expect(server.urls['http://host-b:11434/api/create'].calls).toHaveLength(1);
+    });
+  });
+});
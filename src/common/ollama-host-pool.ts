@@ -0,0 +1,528 @@
+import {
+  FetchFunction,
+  removeUndefinedEntries,
+  withoutTrailingSlash,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod/v4';
+import { MODEL_NOT_FOUND_PATTERN } from '../completion/ollama-error';
+
+export type OllamaRoutingStrategy =
+  | 'round-robin'
+  | 'least-in-flight'
+  | 'model-affinity';
+
+export interface OllamaPoolSettings {
+  /**
+   * Base URLs of the Ollama servers, e.g. `http://gpu-1:11434/api`.
+   */
+  baseURLs: string[];
+
+  /**
+   * How requests are distributed across the servers:
+   *
+   * - `round-robin` (default) rotates through the servers.
+   * - `least-in-flight` prefers the server with the fewest pending requests.
+   * - `model-affinity` prefers servers that are already running the requested
+   *   model according to `/api/ps`, and otherwise the least busy server.
+   */
+  strategy?: OllamaRoutingStrategy;
+
+  /**
+   * Number of consecutive failures after which a server is ejected from the
+   * pool. Defaults to 3.
+   */
+  maxFailures?: number;
+
+  /**
+   * Time in milliseconds for which an ejected server is skipped. Defaults to
+   * 30 seconds.
+   */
+  ejectionDuration?: number;
+
+  /**
+   * Time in milliseconds for which the running models reported by `/api/ps`
+   * are cached for `model-affinity` routing. Defaults to 10 seconds.
+   */
+  runningModelsTtl?: number;
+}
+
+interface OllamaHost {
+  baseURL: string;
+  // base URL without the `/api` suffix, so `/v1` requests are routed as well:
+  rootURL: string;
+  inFlight: number;
+  consecutiveFailures: number;
+  ejectedUntil: number;
+  runningModels: Set<string>;
+  runningModelsUpdatedAt: number;
+}
+
+/**
+ * Fetch function that keeps all requests of one operation on the same server.
+ */
+export interface OllamaHostScope {
+  fetch: FetchFunction;
+
+  /**
+   * Base URL of the server that served the first request of the scope, or
+   * `undefined` before the first request.
+   */
+  readonly baseURL: string | undefined;
+}
+
+// Statuses that indicate a problem with the server rather than the request:
+const HOST_FAILURE_STATUS_CODES = [502, 503, 504];
+
+// `/api/ps` is queried before routing, so a hanging server must not block it:
+const RUNNING_MODELS_TIMEOUT = 2_000;
+
+const runningModelsResponseSchema = z.object({
+  models: z.array(z.object({ name: z.string(), model: z.string().optional() })),
+});
+
+/**
+ * Distributes requests across several Ollama servers. The pool tracks the
+ * health of the servers passively from the responses, ejects servers that
+ * fail repeatedly and fails over to the next server before the first byte of
+ * a response has been delivered.
+ */
+export class OllamaHostPool {
+  private readonly hosts: OllamaHost[];
+  private readonly strategy: OllamaRoutingStrategy;
+  private readonly maxFailures: number;
+  private readonly ejectionDuration: number;
+  private readonly runningModelsTtl: number;
+  private readonly maxRequestsPerHost: number;
+  private readonly headers: () => Record<string, string | undefined>;
+  private readonly fetch: FetchFunction;
+  private readonly hostReleaseListeners = new Set<() => void>();
+  private nextHostIndex = 0;
+
+  constructor(
+    settings: OllamaPoolSettings,
+    {
+      maxRequestsPerHost = Infinity,
+      headers = () => ({}),
+      fetch = globalThis.fetch,
+    }: {
+      maxRequestsPerHost?: number;
+      // headers of the `/api/ps` requests for `model-affinity` routing:
+      headers?: () => Record<string, string | undefined>;
+      fetch?: FetchFunction;
+    } = {},
+  ) {
+    if (settings.baseURLs.length === 0) {
+      throw new Error('The Ollama pool requires at least one base URL.');
+    }
+
+    this.hosts = settings.baseURLs.map(url => {
+      const baseURL = withoutTrailingSlash(url)!;
+
+      return {
+        baseURL,
+        rootURL: baseURL.replace(/\/api$/, ''),
+        inFlight: 0,
+        consecutiveFailures: 0,
+        ejectedUntil: 0,
+        runningModels: new Set(),
+        runningModelsUpdatedAt: 0,
+      };
+    });
+    this.strategy = settings.strategy ?? 'round-robin';
+    this.maxFailures = settings.maxFailures ?? 3;
+    this.ejectionDuration = settings.ejectionDuration ?? 30_000;
+    this.runningModelsTtl = settings.runningModelsTtl ?? 10_000;
+    this.maxRequestsPerHost = maxRequestsPerHost;
+    this.headers = headers;
+    this.fetch = fetch;
+  }
+
+  /**
+   * Base URL that request URLs are built with. The pool's fetch function
+   * replaces it with the base URL of the selected server.
+   */
+  get baseURL(): string {
+    return this.hosts[0]!.baseURL;
+  }
+
+  /**
+   * Base URLs of all servers, e.g. to fan out management calls.
+   */
+  get baseURLs(): string[] {
+    return this.hosts.map(host => host.baseURL);
+  }
+
+  /**
+   * Creates a fetch function that routes requests to the pool's base URL (or
+   * its OpenAI-compatible `/v1` sibling) to one of the servers. Every request
+   * is routed independently. Other requests are passed through.
+   */
+  createFetch(): FetchFunction {
+    return async (input, init) => (await this.route(input, init)).response;
+  }
+
+  /**
+   * Creates a fetch function for a multi-step operation, e.g. a request that
+   * pulls a missing model and retries. The first request is routed like any
+   * other, and all later requests go to the server that served it.
+   */
+  createScope(): OllamaHostScope {
+    let scopeHost: OllamaHost | undefined;
+
+    return {
+      fetch: async (input, init) => {
+        const { response, host } = await this.route(input, init, scopeHost);
+        scopeHost ??= host;
+        return response;
+      },
+      get baseURL() {
+        return scopeHost?.baseURL;
+      },
+    };
+  }
+
+  /**
+   * Creates a fetch function that sends all requests to the server with the
+   * given base URL, without failing over to other servers.
+   */
+  createHostFetch(baseURL: string): FetchFunction {
+    const host = this.hosts.find(
+      host => host.baseURL === withoutTrailingSlash(baseURL),
+    );
+
+    if (host == null) {
+      throw new Error(`The Ollama pool has no server with the URL ${baseURL}.`);
+    }
+
+    return async (input, init) =>
+      (await this.route(input, init, host)).response;
+  }
+
+  /**
+   * Sends the request to the pinned server, or to the preferred server with
+   * failover. Also returns the server that produced the response.
+   */
+  private async route(
+    input: Parameters<FetchFunction>[0],
+    init: Parameters<FetchFunction>[1],
+    pinnedHost?: OllamaHost,
+  ): Promise<{ response: Response; host?: OllamaHost }> {
+    const url =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url;
+
+    const { rootURL } = this.hosts[0]!;
+
+    if (!url.startsWith(rootURL)) {
+      return { response: await this.fetch(input, init) };
+    }
+
+    const path = url.slice(rootURL.length);
+    const modelId = getModelId(init?.body);
+    const hosts =
+      pinnedHost != null ? [pinnedHost] : await this.selectHosts(modelId);
+
+    let lastError: unknown;
+    let lastResponse: Response | undefined;
+    let lastHost: OllamaHost | undefined;
+
+    while (hosts.length > 0) {
+      if (init?.signal?.aborted) {
+        throw init.signal.reason;
+      }
+
+      lastResponse?.body?.cancel().catch(() => {});
+      lastResponse = undefined;
+
+      const host = await this.reserveHost(hosts, init?.signal ?? undefined);
+
+      let isReleased = false;
+      const release = () => {
+        if (!isReleased) {
+          isReleased = true;
+          host.inFlight--;
+          this.hostReleaseListeners.forEach(listener => listener());
+        }
+      };
+
+      try {
+        const response = await this.fetch(`${host.rootURL}${path}`, init);
+
+        if (HOST_FAILURE_STATUS_CODES.includes(response.status)) {
+          release();
+          this.recordFailure(host);
+          lastResponse = response;
+          lastHost = host;
+          continue;
+        }
+
+        // another server may have the model when the routing prefers servers
+        // by model:
+        if (
+          this.strategy === 'model-affinity' &&
+          modelId != null &&
+          hosts.length > 0 &&
+          (await isModelNotFoundResponse(response))
+        ) {
+          release();
+          host.runningModels.delete(modelId);
+          lastResponse = response;
+          lastHost = host;
+          continue;
+        }
+
+        const trackedResponse = await trackResponse(response, release);
+
+        this.recordSuccess(host, modelId);
+
+        return { response: trackedResponse, host };
+      } catch (error) {
+        release();
+
+        if (init?.signal?.aborted) {
+          throw error;
+        }
+
+        this.recordFailure(host);
+        lastError = error;
+      }
+    }
+
+    if (lastResponse != null) {
+      return { response: lastResponse, host: lastHost };
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Removes the first server below `maxRequestsPerHost` from the candidates
+   * and counts the request as in flight. Waits for a request to complete when
+   * all candidates are at their limit.
+   */
+  private async reserveHost(
+    candidates: OllamaHost[],
+    abortSignal: AbortSignal | undefined,
+  ): Promise<OllamaHost> {
+    while (true) {
+      const index = candidates.findIndex(
+        host => host.inFlight < this.maxRequestsPerHost,
+      );
+
+      if (index !== -1) {
+        const [host] = candidates.splice(index, 1);
+        host!.inFlight++;
+        return host!;
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const onRelease = () => {
+          cleanup();
+          resolve();
+        };
+        const onAbort = () => {
+          cleanup();
+          reject(abortSignal?.reason);
+        };
+        const cleanup = () => {
+          this.hostReleaseListeners.delete(onRelease);
+          abortSignal?.removeEventListener('abort', onAbort);
+        };
+
+        if (abortSignal?.aborted) {
+          reject(abortSignal.reason);
+          return;
+        }
+
+        this.hostReleaseListeners.add(onRelease);
+        abortSignal?.addEventListener('abort', onAbort);
+      });
+    }
+  }
+
+  /**
+   * Orders the servers by preference. Ejected servers are only tried after
+   * all healthy servers have failed.
+   */
+  private async selectHosts(
+    modelId: string | undefined,
+  ): Promise<OllamaHost[]> {
+    const now = Date.now();
+    const healthyHosts = this.hosts.filter(host => host.ejectedUntil <= now);
+    const ejectedHosts = this.hosts.filter(host => host.ejectedUntil > now);
+
+    // rotate, so that ties are broken in round-robin order:
+    const offset =
+      healthyHosts.length > 0 ? this.nextHostIndex++ % healthyHosts.length : 0;
+    let orderedHosts = [
+      ...healthyHosts.slice(offset),
+      ...healthyHosts.slice(0, offset),
+    ];
+
+    if (this.strategy === 'least-in-flight') {
+      orderedHosts = sortByInFlight(orderedHosts);
+    }
+
+    if (this.strategy === 'model-affinity') {
+      orderedHosts = sortByInFlight(orderedHosts);
+
+      if (modelId != null) {
+        await this.refreshRunningModels(orderedHosts);
+
+        orderedHosts = [
+          ...orderedHosts.filter(host => isRunning(host, modelId)),
+          ...orderedHosts.filter(host => !isRunning(host, modelId)),
+        ];
+      }
+    }
+
+    return [...orderedHosts, ...ejectedHosts];
+  }
+
+  private async refreshRunningModels(hosts: OllamaHost[]) {
+    const now = Date.now();
+
+    await Promise.all(
+      hosts
+        .filter(
+          host => now - host.runningModelsUpdatedAt > this.runningModelsTtl,
+        )
+        .map(async host => {
+          try {
+            const response = await this.fetch(`${host.baseURL}/ps`, {
+              headers: removeUndefinedEntries(this.headers()),
+              signal: AbortSignal.timeout(RUNNING_MODELS_TIMEOUT),
+            });
+            const { models } = runningModelsResponseSchema.parse(
+              await response.json(),
+            );
+
+            host.runningModels = new Set();
+            for (const model of models) {
+              host.runningModels.add(model.name);
+              host.runningModels.add(model.model ?? model.name);
+            }
+            host.runningModelsUpdatedAt = now;
+          } catch {
+            // the server is routed without affinity until the next refresh
+          }
+        }),
+    );
+  }
+
+  private recordSuccess(host: OllamaHost, modelId: string | undefined) {
+    host.consecutiveFailures = 0;
+    host.ejectedUntil = 0;
+
+    // the server now has the model loaded:
+    if (modelId != null) {
+      host.runningModels.add(modelId);
+    }
+  }
+
+  private recordFailure(host: OllamaHost) {
+    host.consecutiveFailures++;
+
+    if (host.consecutiveFailures >= this.maxFailures) {
+      host.ejectedUntil = Date.now() + this.ejectionDuration;
+    }
+  }
+}
+
+/**
+ * Reads ahead to the first chunk of the response body, so that failures
+ * before the first byte can fail over. Calls `release` once the body has
+ * been consumed, failed or cancelled.
+ */
+async function trackResponse(
+  response: Response,
+  release: () => void,
+): Promise<Response> {
+  if (response.body == null) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const first = await reader.read();
+
+  if (first.done) {
+    release();
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(first.value);
+      }
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+function sortByInFlight(hosts: OllamaHost[]): OllamaHost[] {
+  // Array.prototype.sort is stable, so the rotation breaks ties:
+  return [...hosts].sort((a, b) => a.inFlight - b.inFlight);
+}
+
+function isRunning(host: OllamaHost, modelId: string): boolean {
+  return (
+    host.runningModels.has(modelId) ||
+    // `/api/ps` reports models with an explicit tag, e.g. `llama3.2:latest`:
+    (!modelId.includes(':') && host.runningModels.has(`${modelId}:latest`))
+  );
+}
+
+async function isModelNotFoundResponse(response: Response): Promise<boolean> {
+  if (response.status !== 404) {
+    return false;
+  }
+
+  const body = await response
+    .clone()
+    .text()
+    .catch(() => '');
+
+  return MODEL_NOT_FOUND_PATTERN.test(body);
+}
+
+function getModelId(body: unknown): string | undefined {
+  if (typeof body !== 'string') {
+    return undefined;
+  }
+
+  try {
+    const { model } = JSON.parse(body);
+    return typeof model === 'string' ? model : undefined;
+  } catch {
+    return undefined;
+  }
+}
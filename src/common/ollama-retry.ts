@@ -0,0 +1,217 @@
+import { APICallError } from '@ai-sdk/provider';
+import { delay } from '@ai-sdk/provider-utils';
+import {
+  OllamaAPICallError,
+  OllamaModelLoadError,
+  OllamaServerOverloadedError,
+  OllamaStreamTimeoutError,
+} from '../completion/ollama-error';
+import type { NdjsonParseResult } from './ndjson-stream-handler';
+
+export interface OllamaRetrySettings {
+  /**
+   * Maximum number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds. Defaults to 500.
+   */
+  initialDelay?: number;
+
+  /**
+   * Maximum delay between two attempts in milliseconds. Defaults to 10 seconds.
+   */
+  maxDelay?: number;
+
+  /**
+   * Factor by which the delay grows with every retry. Defaults to 2.
+   */
+  backoffFactor?: number;
+
+  /**
+   * Randomizes every delay between half and the full delay, so that
+   * concurrent requests do not retry in lockstep. Defaults to `true`.
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes of unclassified API call errors that are retried.
+   * Defaults to 408, 429, 500, 502, 503 and 504.
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Error classes that are retried. Defaults to `OllamaModelLoadError`,
+   * `OllamaServerOverloadedError` and `OllamaStreamTimeoutError`. Classified
+   * Ollama errors are only retried when their class is listed here.
+   */
+  retryableErrors?: Array<abstract new (...args: any[]) => Error>;
+}
+
+const DEFAULT_RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const DEFAULT_RETRYABLE_ERRORS = [
+  OllamaModelLoadError,
+  OllamaServerOverloadedError,
+  OllamaStreamTimeoutError,
+];
+
+/**
+ * Retries requests that fail with transient errors, e.g. while Ollama swaps
+ * models or when its request queue is full, with exponential backoff.
+ */
+export class OllamaRetryPolicy {
+  private readonly maxAttempts: number;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly backoffFactor: number;
+  private readonly jitter: boolean;
+  private readonly retryableStatusCodes: number[];
+  private readonly retryableErrors: Array<abstract new (...args: any[]) => Error>;
+
+  constructor(settings: OllamaRetrySettings = {}) {
+    this.maxAttempts = Math.max(1, settings.maxAttempts ?? 3);
+    this.initialDelay = settings.initialDelay ?? 500;
+    this.maxDelay = settings.maxDelay ?? 10_000;
+    this.backoffFactor = settings.backoffFactor ?? 2;
+    this.jitter = settings.jitter ?? true;
+    this.retryableStatusCodes =
+      settings.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES;
+    this.retryableErrors = settings.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS;
+  }
+
+  isRetryable(error: unknown): boolean {
+    if (this.retryableErrors.some(errorClass => error instanceof errorClass)) {
+      return true;
+    }
+
+    // e.g. a context length error that was reported with status 500:
+    if (OllamaAPICallError.isInstance(error)) {
+      return false;
+    }
+
+    if (!APICallError.isInstance(error)) {
+      return false;
+    }
+
+    // e.g. a refused connection, which has no status code:
+    return error.statusCode != null
+      ? this.retryableStatusCodes.includes(error.statusCode)
+      : error.isRetryable;
+  }
+
+  /**
+   * Returns the delay before the given retry (starting at 1) in milliseconds.
+   */
+  getDelay(retry: number): number {
+    const delay = Math.min(
+      this.maxDelay,
+      this.initialDelay * this.backoffFactor ** (retry - 1),
+    );
+
+    return this.jitter ? delay / 2 + (Math.random() * delay) / 2 : delay;
+  }
+
+  async run<T>(
+    request: (options: { isLastAttempt: boolean }) => PromiseLike<T>,
+    abortSignal?: AbortSignal,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= this.maxAttempts;
+
+      try {
+        return await request({ isLastAttempt });
+      } catch (error) {
+        if (isLastAttempt || abortSignal?.aborted || !this.isRetryable(error)) {
+          throw error;
+        }
+      }
+
+      await delay(this.getDelay(attempt), { abortSignal });
+    }
+  }
+
+  /**
+   * Like `run`, but also retries when the stream fails before its first chunk.
+   * Once the first chunk has been delivered, errors are left to the stream.
+   */
+  runStream<RESPONSE extends { value: ReadableStream<NdjsonParseResult<any>> }>(
+    request: () => PromiseLike<RESPONSE>,
+    abortSignal?: AbortSignal,
+  ): Promise<RESPONSE> {
+    return this.run(async ({ isLastAttempt }) => {
+      const response = await request();
+      const reader = response.value.getReader();
+      const first = await reader.read();
+
+      if (
+        !isLastAttempt &&
+        !first.done &&
+        !first.value.success &&
+        this.isRetryable(first.value.error)
+      ) {
+        await reader.cancel().catch(() => {});
+        throw first.value.error;
+      }
+
+      return { ...response, value: prependChunk(first, reader) } as RESPONSE;
+    }, abortSignal);
+  }
+}
+
+export function withRetry<T>({
+  retry,
+  abortSignal,
+  request,
+}: {
+  retry: OllamaRetryPolicy | undefined;
+  abortSignal: AbortSignal | undefined;
+  request: () => PromiseLike<T>;
+}): Promise<T> {
+  return retry != null
+    ? retry.run(request, abortSignal)
+    : Promise.resolve(request());
+}
+
+export function withStreamRetry<
+  RESPONSE extends { value: ReadableStream<NdjsonParseResult<any>> },
+>({
+  retry,
+  abortSignal,
+  request,
+}: {
+  retry: OllamaRetryPolicy | undefined;
+  abortSignal: AbortSignal | undefined;
+  request: () => PromiseLike<RESPONSE>;
+}): Promise<RESPONSE> {
+  return retry != null
+    ? retry.runStream(request, abortSignal)
+    : Promise.resolve(request());
+}
+
+function prependChunk<T>(
+  first: ReadableStreamReadResult<T>,
+  reader: ReadableStreamDefaultReader<T>,
+): ReadableStream<T> {
+  return new ReadableStream<T>({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(first.value);
+      }
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
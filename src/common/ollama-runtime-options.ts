@@ -0,0 +1,210 @@
+import { z } from "zod/v4";
+
+// https://github.com/ollama/ollama/blob/main/docs/modelfile.md#valid-parameters-and-values
+export const ollamaRuntimeOptions = z.object({
+  /**
+   * Number of tokens from the initial prompt to keep when the context is
+   * shifted. -1 keeps all tokens.
+   */
+  num_keep: z.number().int().min(-1).optional(),
+
+  /**
+   * Random number seed. Setting a specific seed makes the output deterministic
+   * for the same prompt.
+   */
+  seed: z.number().int().optional(),
+
+  /**
+   * Maximum number of tokens to predict. -1 generates indefinitely, -2 fills
+   * the context.
+   */
+  num_predict: z.number().int().min(-2).optional(),
+
+  /**
+   * Limits sampling to the K most likely tokens. Higher values give more
+   * diverse answers.
+   */
+  top_k: z.number().int().min(0).optional(),
+
+  /**
+   * Nucleus sampling: limits sampling to the smallest set of tokens whose
+   * cumulative probability exceeds P.
+   */
+  top_p: z.number().min(0).max(1).optional(),
+
+  /**
+   * Minimum probability of a token, relative to the most likely token, for it
+   * to be considered.
+   */
+  min_p: z.number().min(0).max(1).optional(),
+
+  /**
+   * Locally typical sampling. 1.0 disables it.
+   */
+  typical_p: z.number().min(0).max(1).optional(),
+
+  /**
+   * How far back the model looks to prevent repetition. 0 disables it, -1
+   * uses the context size.
+   */
+  repeat_last_n: z.number().int().min(-1).optional(),
+
+  /**
+   * Sampling temperature. Higher values make the output more creative.
+   */
+  temperature: z.number().min(0).optional(),
+
+  /**
+   * Penalty for repeated tokens. Higher values penalize repetitions more
+   * strongly, 1.0 disables it.
+   */
+  repeat_penalty: z.number().min(0).optional(),
+
+  /**
+   * Penalizes tokens that already appeared in the text, independent of their
+   * frequency.
+   */
+  presence_penalty: z.number().optional(),
+
+  /**
+   * Penalizes tokens proportionally to how often they appeared in the text.
+   */
+  frequency_penalty: z.number().optional(),
+
+  /**
+   * Whether the newline token is penalized by the repetition penalties.
+   */
+  penalize_newline: z.boolean().optional(),
+
+  /**
+   * Stop sequences. Generation stops when one of them is produced.
+   */
+  stop: z.array(z.string()).optional(),
+
+  /**
+   * Tail free sampling. 1.0 disables it, lower values reduce the impact of
+   * less probable tokens.
+   */
+  tfs_z: z.number().min(0).optional(),
+
+  /**
+   * Mirostat sampling for controlling perplexity. 0 disables it, 1 selects
+   * Mirostat and 2 selects Mirostat 2.0.
+   */
+  mirostat: z.union([z.literal(0), z.literal(1), z.literal(2)]).optional(),
+
+  /**
+   * Mirostat learning rate. Lower values adjust more slowly.
+   */
+  mirostat_eta: z.number().min(0).optional(),
+
+  /**
+   * Mirostat target entropy. Lower values give more focused output.
+   */
+  mirostat_tau: z.number().min(0).optional(),
+
+  /**
+   * Enables NUMA support.
+   */
+  numa: z.boolean().optional(),
+
+  /**
+   * Size of the context window in tokens.
+   */
+  num_ctx: z.number().int().positive().optional(),
+
+  /**
+   * Maximum batch size for prompt processing.
+   */
+  num_batch: z.number().int().positive().optional(),
+
+  /**
+   * Number of layers to offload to the GPU(s). 0 runs on the CPU only, -1
+   * lets Ollama decide.
+   */
+  num_gpu: z.number().int().min(-1).optional(),
+
+  /**
+   * GPU used for small tensors when running on multiple GPUs.
+   */
+  main_gpu: z.number().int().min(0).optional(),
+
+  /**
+   * Reduces VRAM usage at the cost of performance.
+   */
+  low_vram: z.boolean().optional(),
+
+  /**
+   * Memory-maps the model. Disabling it can help on systems with little RAM.
+   */
+  use_mmap: z.boolean().optional(),
+
+  /**
+   * Number of CPU threads used for computation. Defaults to the number of
+   * physical cores.
+   */
+  num_thread: z.number().int().positive().optional(),
+});
+
+export type OllamaRuntimeOptions = z.infer<typeof ollamaRuntimeOptions>;
+
+/**
+ * Combines model-level runtime options with per-call overrides. Returns
+ * `undefined` when neither is set so that no `options` field is sent.
+ */
+export function mergeRuntimeOptions(
+  defaults: OllamaRuntimeOptions | undefined,
+  overrides: OllamaRuntimeOptions | undefined,
+): OllamaRuntimeOptions | undefined {
+  if (defaults == null && overrides == null) {
+    return undefined;
+  }
+
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged as OllamaRuntimeOptions;
+}
+
+/**
+ * Maps the standardized AI SDK call settings onto their native Ollama runtime
+ * options, e.g. `maxOutputTokens` onto `num_predict`.
+ */
+export function convertCallSettingsToRuntimeOptions({
+  maxOutputTokens,
+  temperature,
+  topP,
+  topK,
+  presencePenalty,
+  frequencyPenalty,
+  stopSequences,
+  seed,
+}: {
+  maxOutputTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  stopSequences?: string[];
+  seed?: number;
+}): OllamaRuntimeOptions | undefined {
+  const options: OllamaRuntimeOptions = {
+    num_predict: maxOutputTokens,
+    temperature,
+    top_p: topP,
+    top_k: topK,
+    presence_penalty: presencePenalty,
+    frequency_penalty: frequencyPenalty,
+    stop: stopSequences != null && stopSequences.length > 0 ? stopSequences : undefined,
+    seed,
+  };
+
+  return Object.values(options).some(value => value !== undefined)
+    ? mergeRuntimeOptions(undefined, options)
+    : undefined;
+}
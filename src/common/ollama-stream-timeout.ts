@@ -0,0 +1,243 @@
+import { z } from 'zod/v4';
+import { OllamaStreamTimeoutError } from '../completion/ollama-error';
+import { COLD_LOAD_THRESHOLD_NS } from './get-ollama-metrics';
+import type { NdjsonParseResult } from './ndjson-stream-handler';
+
+export const ollamaStreamTimeoutSettings = z.object({
+  /**
+   * Maximum time in milliseconds from sending the request until the first
+   * chunk arrives. The timeout is extended by the longest load time that
+   * Ollama reported for the model, so a cold start does not trigger it.
+   */
+  firstChunkTimeout: z.number().positive().optional(),
+
+  /**
+   * Time in milliseconds that is added to the first chunk timeout while
+   * Ollama has not reported a cold start of the model yet, e.g. for the first
+   * call after the process started. Defaults to 5 minutes.
+   */
+  loadTimeout: z.number().nonnegative().optional(),
+
+  /**
+   * Maximum time in milliseconds between two chunks.
+   */
+  idleTimeout: z.number().positive().optional(),
+});
+
+export type OllamaStreamTimeoutSettings = z.infer<
+  typeof ollamaStreamTimeoutSettings
+>;
+
+const DEFAULT_LOAD_TIMEOUT = 5 * 60_000;
+
+/**
+ * Longest model load times that Ollama reported in `load_duration`, by model.
+ * Only cold starts are recorded, since warm calls report short load times.
+ */
+export class OllamaModelLoadTimes {
+  private readonly loadTimes = new Map<string, number>();
+
+  /**
+   * Returns the longest load time of the model in milliseconds, or `undefined`
+   * when no cold start of the model has been reported yet.
+   */
+  get(modelId: string): number | undefined {
+    return this.loadTimes.get(modelId);
+  }
+
+  /**
+   * Records a load duration in nanoseconds, as reported by Ollama.
+   */
+  record(modelId: string, loadDuration: number | undefined) {
+    if (loadDuration == null || loadDuration <= COLD_LOAD_THRESHOLD_NS) {
+      return;
+    }
+
+    const loadTime = loadDuration / 1_000_000;
+
+    if (loadTime > (this.get(modelId) ?? 0)) {
+      this.loadTimes.set(modelId, loadTime);
+    }
+  }
+}
+
+/**
+ * Enforces the first chunk and idle timeouts of a streaming request. When the
+ * first chunk timeout fires before the response arrives, the request is
+ * aborted. Afterwards, pending reads are ended and the reader is cancelled.
+ */
+export class OllamaStreamTimeout {
+  private readonly controller = new AbortController();
+  private readonly firstChunkTimeout: number | undefined;
+  private timeoutId: ReturnType<typeof setTimeout> | undefined;
+  private endPendingRead: (() => void) | undefined;
+  private hasReceivedChunk = false;
+
+  /**
+   * The timeout error, once a timeout has fired.
+   */
+  error: OllamaStreamTimeoutError | undefined;
+
+  constructor(
+    private readonly options: {
+      settings: OllamaStreamTimeoutSettings;
+      loadTime?: number;
+      url: string;
+      requestBodyValues: unknown;
+      abortSignal?: AbortSignal;
+    },
+  ) {
+    const { firstChunkTimeout, loadTimeout = DEFAULT_LOAD_TIMEOUT } =
+      options.settings;
+
+    // without a reported cold start, the model may have to be loaded first:
+    this.firstChunkTimeout =
+      firstChunkTimeout != null
+        ? firstChunkTimeout + (options.loadTime ?? loadTimeout)
+        : undefined;
+  }
+
+  /**
+   * Signal for the request. It is aborted by the caller's abort signal and
+   * when the first chunk timeout fires before the response arrives.
+   */
+  get abortSignal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Sends the request and starts the first chunk timeout. Rejects with the
+   * timeout error when the request was aborted by the timeout.
+   */
+  async run<T>(request: () => PromiseLike<T>): Promise<T> {
+    const { abortSignal } = this.options;
+
+    if (abortSignal?.aborted) {
+      this.controller.abort(abortSignal.reason);
+    }
+    abortSignal?.addEventListener('abort', this.abort);
+
+    this.schedule('first-chunk', this.firstChunkTimeout);
+
+    try {
+      return await request();
+    } catch (error) {
+      this.dispose();
+      throw this.error ?? error;
+    }
+  }
+
+  /**
+   * Reads the next chunk. When a timeout fires first, the reader is cancelled
+   * and the read resolves as done; the timeout is then available as `error`.
+   */
+  async read<T>(
+    reader: ReadableStreamDefaultReader<T>,
+  ): Promise<ReadableStreamReadResult<T>> {
+    if (this.hasReceivedChunk) {
+      this.schedule('idle', this.options.settings.idleTimeout);
+    }
+
+    let result: ReadableStreamReadResult<T> | undefined;
+
+    if (this.error == null) {
+      const timedOut = new Promise<undefined>(resolve => {
+        this.endPendingRead = () => resolve(undefined);
+      });
+
+      try {
+        result = await Promise.race([reader.read(), timedOut]);
+      } catch (error) {
+        // reads fail when the request was aborted by the timeout:
+        if (this.error == null) {
+          throw error;
+        }
+      } finally {
+        this.endPendingRead = undefined;
+      }
+    }
+
+    if (result == null) {
+      this.dispose();
+      await reader.cancel(this.error).catch(() => {});
+      return { done: true, value: undefined };
+    }
+
+    clearTimeout(this.timeoutId);
+    this.hasReceivedChunk = true;
+
+    if (result.done) {
+      this.dispose();
+    }
+
+    return result;
+  }
+
+  /**
+   * Applies the timeouts to a stream of parsed events, e.g. server-sent
+   * events. A timeout ends the stream with a failed result.
+   */
+  wrapStream<T>(
+    stream: ReadableStream<NdjsonParseResult<T>>,
+  ): ReadableStream<NdjsonParseResult<T>> {
+    const reader = stream.getReader();
+
+    return new ReadableStream<NdjsonParseResult<T>>({
+      pull: async controller => {
+        const { done, value } = await this.read(reader);
+
+        if (this.error != null) {
+          controller.enqueue({
+            success: false,
+            error: this.error,
+            rawValue: undefined,
+          });
+          controller.close();
+        } else if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel: reason => {
+        this.dispose();
+        return reader.cancel(reason);
+      },
+    });
+  }
+
+  /**
+   * Stops the timers, e.g. when the stream was cancelled.
+   */
+  dispose() {
+    clearTimeout(this.timeoutId);
+    this.options.abortSignal?.removeEventListener('abort', this.abort);
+  }
+
+  private readonly abort = () => {
+    this.controller.abort(this.options.abortSignal?.reason);
+  };
+
+  private schedule(timeoutType: 'first-chunk' | 'idle', timeout: number | undefined) {
+    clearTimeout(this.timeoutId);
+
+    if (timeout == null) {
+      return;
+    }
+
+    this.timeoutId = setTimeout(() => {
+      this.error = new OllamaStreamTimeoutError({
+        timeoutType,
+        timeout,
+        url: this.options.url,
+        requestBodyValues: this.options.requestBodyValues,
+      });
+
+      if (this.endPendingRead != null) {
+        this.endPendingRead();
+      } else if (!this.hasReceivedChunk) {
+        this.controller.abort(this.error);
+      }
+    }, timeout);
+  }
+}
@@ -0,0 +1,105 @@
+import { OllamaChatPrompt } from '../adaptors/ollama-chat-prompt';
+
+export type OllamaCompatiblePrompt = Array<OllamaCompatibleMessage>;
+
+export type OllamaCompatibleMessage =
+  | { role: 'system' | 'developer'; content: string }
+  | {
+      role: 'user';
+      content:
+        | string
+        | Array<
+            | { type: 'text'; text: string }
+            | { type: 'image_url'; image_url: { url: string } }
+          >;
+    }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+      }>;
+    }
+  | { role: 'tool'; tool_call_id: string; content: string }
+  | { role: 'function'; name: string; content: string };
+
+/**
+ * Converts native Ollama chat messages into OpenAI chat completion messages.
+ * Images must already be base64 encoded (see `convertOllamaImagesToBase64`)
+ * and are sent as data URLs. Tool calls carry their arguments as JSON strings.
+ */
+export function convertToOllamaCompatibleMessages(
+  messages: OllamaChatPrompt,
+): OllamaCompatiblePrompt {
+  return messages.map((message): OllamaCompatibleMessage => {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+      case 'function':
+        return message;
+
+      case 'user': {
+        const images = (message.images ?? []).map(image => ({
+          type: 'image_url' as const,
+          image_url: { url: toDataUrl(image as string) },
+        }));
+
+        if (images.length === 0 && typeof message.content === 'string') {
+          return { role: 'user', content: message.content };
+        }
+
+        const text =
+          typeof message.content === 'string'
+            ? message.content
+            : message.content
+                .map(part => (part.type === 'text' ? part.text : ''))
+                .join('');
+
+        return {
+          role: 'user',
+          content: [...(text ? [{ type: 'text' as const, text }] : []), ...images],
+        };
+      }
+
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content ?? null,
+          tool_calls: message.tool_calls?.map(toolCall => ({
+            id: toolCall.id,
+            type: 'function',
+            function: {
+              name: toolCall.function.name,
+              arguments: JSON.stringify(toolCall.function.arguments),
+            },
+          })),
+        };
+
+      case 'tool':
+        return {
+          role: 'tool',
+          tool_call_id: message.tool_call_id,
+          content: message.content,
+        };
+    }
+  });
+}
+
+// OpenAI-compatible servers expect data URLs, so the media type is detected
+// from the first bytes of the base64 data:
+const IMAGE_SIGNATURES: Array<[prefix: string, mediaType: string]> = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp'],
+];
+
+function toDataUrl(base64: string): string {
+  const mediaType =
+    IMAGE_SIGNATURES.find(([prefix]) => base64.startsWith(prefix))?.[1] ??
+    'image/jpeg';
+
+  return `data:${mediaType};base64,${base64}`;
+}
@@ -0,0 +1,51 @@
+import { APICallError } from '@ai-sdk/provider';
+import { NdjsonParseResult } from '../common/ndjson-stream-handler';
+import {
+  classifyOllamaError,
+  getOllamaErrorMessage,
+  OllamaErrorData,
+} from '../completion/ollama-error';
+
+/**
+ * Turns error events, e.g. `data: {"error":{"message":"..."}}`, into failed
+ * results that carry a classified `APICallError`, like the native transport.
+ * `getErrorData` returns the error of an event, or `undefined` for events
+ * that are passed on.
+ */
+export function createErrorChunkTransform<CHUNK, VALUE extends CHUNK = CHUNK>({
+  url,
+  requestBodyValues,
+  getErrorData,
+}: {
+  url: string;
+  requestBodyValues: unknown;
+  getErrorData: (chunk: CHUNK) => OllamaErrorData | undefined;
+}) {
+  return new TransformStream<
+    NdjsonParseResult<CHUNK>,
+    NdjsonParseResult<VALUE>
+  >({
+    transform(chunk, controller) {
+      const errorData = chunk.success ? getErrorData(chunk.value) : undefined;
+
+      if (errorData == null) {
+        controller.enqueue(chunk as NdjsonParseResult<VALUE>);
+        return;
+      }
+
+      controller.enqueue({
+        success: false,
+        error: classifyOllamaError(
+          new APICallError({
+            message: getOllamaErrorMessage(errorData),
+            url,
+            requestBodyValues,
+            responseBody: JSON.stringify(chunk.rawValue),
+            data: errorData,
+          }),
+        ),
+        rawValue: chunk.rawValue,
+      });
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { SharedV3Warning } from '@ai-sdk/provider';
+
+// provider options that only the native `/api/chat` transport supports:
+const NATIVE_ONLY_OPTIONS = [
+  'extractReasoning',
+  'toolCallRecovery',
+  'toolInputValidation',
+  'keepAlive',
+  'options',
+];
+
+// embedding settings that only the native `/api/embed` endpoint supports:
+export const NATIVE_ONLY_EMBEDDING_OPTIONS = [
+  'truncate',
+  'keepAlive',
+  'options',
+];
+
+export function getNativeOnlyOptionWarnings(
+  ollamaOptions: Record<string, unknown>,
+  nativeOnlyOptions: string[] = NATIVE_ONLY_OPTIONS,
+): SharedV3Warning[] {
+  return nativeOnlyOptions
+    .filter(option => ollamaOptions[option] != null)
+    .map(option => ({
+      type: 'unsupported',
+      feature: `providerOptions.ollama.${option}`,
+      details: 'Only supported by the native Ollama API.',
+    }));
+}
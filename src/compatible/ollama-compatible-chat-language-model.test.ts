@@ -0,0 +1,531 @@
+import { LanguageModelV3Prompt } from '@ai-sdk/provider';
+import {
+  convertReadableStreamToArray,
+  createTestServer,
+} from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+import {
+  OllamaModelLoadError,
+  OllamaStreamTimeoutError,
+} from '../completion/ollama-error';
+
+const TEST_PROMPT: LanguageModelV3Prompt = [
+  { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+];
+
+const provider = createOllama({ compatibility: 'compatible' });
+const model = provider('llama3.2');
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/v1/chat/completions': {},
+  'http://localhost:1234/v1/chat/completions': {},
+});
+
+function prepareJsonResponse(body: Record<string, unknown>) {
+  server.urls['http://127.0.0.1:11434/v1/chat/completions'].response = {
+    type: 'json-value',
+    body: {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1711115037,
+      model: 'llama3.2',
+      ...body,
+    },
+  };
+}
+
+function prepareStreamResponse(chunks: Array<Record<string, unknown>>) {
+  server.urls['http://127.0.0.1:11434/v1/chat/completions'].response = {
+    type: 'stream-chunks',
+    chunks: [
+      ...chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`),
+      'data: [DONE]\n\n',
+    ],
+  };
+}
+
+// responds with the events and keeps the stream open:
+function createStalledFetch(events: string[]) {
+  return async () =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          for (const event of events) {
+            controller.enqueue(new TextEncoder().encode(event));
+          }
+        },
+      }),
+    );
+}
+
+function createChunk(
+  delta: Record<string, unknown> | null,
+  extra: Record<string, unknown> = {},
+) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1711115037,
+    model: 'llama3.2',
+    choices: delta != null ? [{ index: 0, delta, finish_reason: null }] : [],
+    ...extra,
+  };
+}
+
+describe('doGenerate', () => {
+  it('should send the request to the OpenAI-compatible endpoint', async () => {
+    prepareJsonResponse({
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'Hello!' },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+
+    await model.doGenerate({
+      prompt: [
+        { role: 'system', content: 'You are helpful.' },
+        ...TEST_PROMPT,
+      ],
+      maxOutputTokens: 100,
+      temperature: 0.5,
+      stopSequences: ['END'],
+    });
+
+    expect(await server.calls[0].requestBodyJson).toStrictEqual({
+      model: 'llama3.2',
+      max_tokens: 100,
+      temperature: 0.5,
+      stop: ['END'],
+      messages: [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'Hello' },
+      ],
+    });
+  });
+
+  it('should extract text, reasoning, usage and response metadata', async () => {
+    prepareJsonResponse({
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Hello!',
+            reasoning: 'The user greets me.',
+          },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: {
+        prompt_tokens: 10,
+        completion_tokens: 20,
+        total_tokens: 30,
+      },
+    });
+
+    const result = await model.doGenerate({ prompt: TEST_PROMPT });
+
+    expect(result.content).toStrictEqual([
+      { type: 'reasoning', text: 'The user greets me.' },
+      { type: 'text', text: 'Hello!' },
+    ]);
+    expect(result.finishReason).toStrictEqual({ unified: 'stop', raw: 'stop' });
+    expect(result.usage.inputTokens.total).toBe(10);
+    expect(result.usage.outputTokens.total).toBe(20);
+    expect(result.response).toMatchObject({
+      id: 'chatcmpl-1',
+      modelId: 'llama3.2',
+      timestamp: new Date(1711115037 * 1000),
+    });
+  });
+
+  it('should send tools and the tool choice and extract tool calls', async () => {
+    prepareJsonResponse({
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'weather', arguments: '{"city":"Paris"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    });
+
+    const result = await model.doGenerate({
+      prompt: [
+        ...TEST_PROMPT,
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'call_0',
+              toolName: 'weather',
+              input: { city: 'Berlin' },
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_0',
+              toolName: 'weather',
+              output: { type: 'json', value: { temperature: 20 } },
+            },
+          ],
+        },
+      ],
+      tools: [
+        {
+          type: 'function',
+          name: 'weather',
+          description: 'Get the weather',
+          inputSchema: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+            required: ['city'],
+          },
+        },
+      ],
+      toolChoice: { type: 'tool', toolName: 'weather' },
+    });
+
+    const requestBody = (await server.calls[0].requestBodyJson) as any;
+
+    expect(requestBody.tools).toStrictEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'weather',
+          description: 'Get the weather',
+          parameters: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+            required: ['city'],
+          },
+        },
+      },
+    ]);
+    expect(requestBody.tool_choice).toStrictEqual({
+      type: 'function',
+      function: { name: 'weather' },
+    });
+    expect(requestBody.messages.slice(1)).toStrictEqual([
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_0',
+            type: 'function',
+            function: { name: 'weather', arguments: '{"city":"Berlin"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_0', content: '{"temperature":20}' },
+    ]);
+
+    expect(result.content).toStrictEqual([
+      {
+        type: 'tool-call',
+        toolCallId: 'call_1',
+        toolName: 'weather',
+        input: '{"city":"Paris"}',
+      },
+    ]);
+    expect(result.finishReason.unified).toBe('tool-calls');
+  });
+
+  it('should send images as data URLs', async () => {
+    prepareJsonResponse({
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'A cat.' },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+
+    await model.doGenerate({
+      prompt: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            {
+              type: 'file',
+              mediaType: 'image/png',
+              data: 'iVBORw0KGgoAAAANSUhEUg==',
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(
+      ((await server.calls[0].requestBodyJson) as any).messages,
+    ).toStrictEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUg==' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should warn about options of the native API', async () => {
+    prepareJsonResponse({
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'Hello!' },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+
+    const result = await model.doGenerate({
+      prompt: TEST_PROMPT,
+      topK: 40,
+      providerOptions: { ollama: { options: { num_ctx: 8192 } } },
+    });
+
+    expect(result.warnings).toStrictEqual([
+      {
+        type: 'unsupported',
+        feature: 'providerOptions.ollama.options',
+        details: 'Only supported by the native Ollama API.',
+      },
+      { type: 'unsupported', feature: 'topK' },
+    ]);
+  });
+
+  it('should use a custom base URL for third-party servers', async () => {
+    server.urls['http://localhost:1234/v1/chat/completions'].response = {
+      type: 'json-value',
+      body: {
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hello!' },
+            finish_reason: 'stop',
+          },
+        ],
+      },
+    };
+
+    const result = await createOllama({
+      baseURL: 'http://localhost:1234/v1',
+      compatibility: 'compatible',
+    })('qwen3').doGenerate({ prompt: TEST_PROMPT });
+
+    expect(result.content).toStrictEqual([{ type: 'text', text: 'Hello!' }]);
+  });
+
+  it('should classify OpenAI-style errors', async () => {
+    server.urls['http://127.0.0.1:11434/v1/chat/completions'].response = {
+      type: 'error',
+      status: 404,
+      body: {
+        error: {
+          message: 'model "llama3.2" not found, try pulling it first',
+          type: 'api_error',
+        },
+      },
+    };
+
+    await expect(model.doGenerate({ prompt: TEST_PROMPT })).rejects.toMatchObject(
+      { reason: 'model-not-found', statusCode: 404 },
+    );
+  });
+});
+
+describe('doStream', () => {
+  it('should stream text, reasoning and usage', async () => {
+    prepareStreamResponse([
+      createChunk({ role: 'assistant', reasoning: 'Thinking.' }),
+      createChunk({ content: 'Hello' }),
+      createChunk({ content: '!' }),
+      {
+        ...createChunk({}),
+        choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+      },
+      createChunk(null, {
+        usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 },
+      }),
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(await server.calls[0].requestBodyJson).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(parts.map(part => part.type)).toStrictEqual([
+      'response-metadata',
+      'reasoning-start',
+      'reasoning-delta',
+      'reasoning-end',
+      'text-start',
+      'text-delta',
+      'text-delta',
+      'text-end',
+      'finish',
+    ]);
+    expect(parts.filter(part => part.type === 'text-delta')).toMatchObject([
+      { delta: 'Hello' },
+      { delta: '!' },
+    ]);
+    expect(parts[parts.length - 1]).toMatchObject({
+      type: 'finish',
+      finishReason: { unified: 'stop', raw: 'stop' },
+      usage: {
+        inputTokens: { total: 10 },
+        outputTokens: { total: 3 },
+      },
+    });
+  });
+
+  it('should assemble tool calls from streamed deltas', async () => {
+    prepareStreamResponse([
+      createChunk({
+        tool_calls: [
+          {
+            index: 0,
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'weather', arguments: '{"city":' },
+          },
+        ],
+      }),
+      createChunk({
+        tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }],
+      }),
+      {
+        ...createChunk({}),
+        choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }],
+      },
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.filter(part => part.type !== 'response-metadata')).toMatchObject(
+      [
+        { type: 'tool-input-start', id: 'call_1', toolName: 'weather' },
+        { type: 'tool-input-delta', id: 'call_1', delta: '{"city":' },
+        { type: 'tool-input-delta', id: 'call_1', delta: '"Paris"}' },
+        { type: 'tool-input-end', id: 'call_1' },
+        {
+          type: 'tool-call',
+          toolCallId: 'call_1',
+          toolName: 'weather',
+          input: '{"city":"Paris"}',
+        },
+        { type: 'finish', finishReason: { unified: 'tool-calls' } },
+      ],
+    );
+  });
+
+  it('should emit classified error parts for error events', async () => {
+    prepareStreamResponse([
+      createChunk({ content: 'Hello' }),
+      { error: { message: 'llama runner process has terminated: exit status 2' } },
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+    const errorPart = parts.find(part => part.type === 'error');
+
+    expect(errorPart?.type === 'error' && errorPart.error).toBeInstanceOf(
+      OllamaModelLoadError,
+    );
+    expect(parts[parts.length - 1]).toMatchObject({
+      type: 'finish',
+      finishReason: { unified: 'error' },
+    });
+  });
+
+  it('should keep the error finish reason when a later chunk finishes', async () => {
+    prepareStreamResponse([
+      createChunk({ content: 'Hello' }),
+      { error: { message: 'an error was encountered while running the model' } },
+      {
+        ...createChunk({}),
+        choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+      },
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts[parts.length - 1]).toMatchObject({
+      type: 'finish',
+      finishReason: { unified: 'error', raw: undefined },
+    });
+  });
+
+  it('should apply the provider stream timeouts', async () => {
+    const timeoutModel = createOllama({
+      compatibility: 'compatible',
+      fetch: createStalledFetch([
+        `data: ${JSON.stringify(createChunk({ content: 'Hello' }))}\n\n`,
+      ]),
+      streamTimeouts: { idleTimeout: 20 },
+    })('llama3.2');
+
+    const { stream } = await timeoutModel.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+    const errorPart = parts.find(part => part.type === 'error');
+
+    expect(
+      errorPart?.type === 'error' &&
+        OllamaStreamTimeoutError.isInstance(errorPart.error) &&
+        errorPart.error.timeoutType,
+    ).toBe('idle');
+    expect(parts[parts.length - 1]).toMatchObject({
+      type: 'finish',
+      finishReason: { unified: 'error' },
+    });
+  });
+
+  it('should deep-merge the call options into the model settings', async () => {
+    const timeoutModel = createOllama({
+      compatibility: 'compatible',
+      fetch: createStalledFetch([
+        `data: ${JSON.stringify(createChunk({ content: 'Hello' }))}\n\n`,
+      ]),
+    }).chat('llama3.2', { streamTimeouts: { idleTimeout: 20 } });
+
+    const { stream } = await timeoutModel.doStream({
+      prompt: TEST_PROMPT,
+      providerOptions: {
+        ollama: { streamTimeouts: { firstChunkTimeout: 1000 } },
+      },
+    });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.some(part => part.type === 'error')).toBe(true);
+  });
+});
@@ -0,0 +1,658 @@
+import {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3FinishReason,
+  LanguageModelV3ResponseMetadata,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+  SharedV3Headers,
+  SharedV3ProviderMetadata,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import {
+  combineHeaders,
+  createEventSourceResponseHandler,
+  createJsonResponseHandler,
+  generateId,
+  parseProviderOptions,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod/v4';
+import { convertOllamaImagesToBase64 } from '../adaptors/convert-ollama-images-to-base64';
+import { convertToOllamaChatMessages } from '../adaptors/convert-to-ollama-chat-messages';
+import { mapOllamaFinishReason } from '../adaptors/map-ollama-finish-reason';
+import { mapOllamaThink } from '../adaptors/map-ollama-think';
+import { mergeOptions } from '../common/merge-options';
+import { NdjsonParseResult } from '../common/ndjson-stream-handler';
+import {
+  getQueueMetadata,
+  withConcurrencyLimit,
+  withStreamConcurrencyLimit,
+} from '../common/ollama-concurrency-limiter';
+import { OllamaConfig } from '../common/ollama-config';
+import { withRetry, withStreamRetry } from '../common/ollama-retry';
+import { OllamaStreamTimeout } from '../common/ollama-stream-timeout';
+import {
+  ollamaErrorDataSchema,
+  ollamaFailedResponseHandler,
+} from '../completion/ollama-error';
+import { withAutoPull } from '../management/ollama-auto-pull';
+import {
+  OllamaChatModelId,
+  OllamaProviderOptions,
+  ollamaProviderOptions,
+} from '../ollama-chat-settings';
+import { convertToOllamaCompatibleMessages } from './convert-to-ollama-compatible-messages';
+import { createErrorChunkTransform } from './create-error-chunk-transform';
+import { getNativeOnlyOptionWarnings } from './get-native-only-option-warnings';
+import { prepareCompatibleTools } from './ollama-compatible-prepare-tools';
+
+/**
+ * Chat model for the OpenAI-compatible `/v1/chat/completions` endpoint of
+ * Ollama and of Ollama-like servers such as LM Studio, llama.cpp or vLLM.
+ */
+export class OllamaCompatibleChatLanguageModel implements LanguageModelV3 {
+  readonly specificationVersion = 'v3' as const;
+  readonly modelId: OllamaChatModelId;
+  readonly settings: OllamaProviderOptions;
+  readonly provider: string;
+
+  private readonly config: OllamaConfig;
+
+  constructor(
+    modelId: OllamaChatModelId,
+    settings: OllamaProviderOptions,
+    config: OllamaConfig,
+  ) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+    this.provider = config.provider;
+  }
+
+  readonly supportedUrls: Record<string, RegExp[]> = {
+    'image/*': [/^https?:\/\/.*$/],
+  };
+
+  private async getArgs({
+    prompt,
+    maxOutputTokens,
+    temperature,
+    topP,
+    topK,
+    frequencyPenalty,
+    presencePenalty,
+    stopSequences,
+    responseFormat,
+    seed,
+    tools,
+    toolChoice,
+    providerOptions,
+    abortSignal,
+  }: LanguageModelV3CallOptions) {
+    const warnings: SharedV3Warning[] = [];
+
+    const callOptions = await parseProviderOptions({
+      provider: 'ollama',
+      providerOptions,
+      schema: ollamaProviderOptions,
+    });
+    const ollamaOptions = mergeOptions(this.settings, callOptions ?? {});
+
+    warnings.push(...getNativeOnlyOptionWarnings(ollamaOptions));
+
+    if (topK != null) {
+      warnings.push({ type: 'unsupported', feature: 'topK' });
+    }
+
+    const { think, warnings: thinkWarnings } = mapOllamaThink({
+      modelId: this.modelId,
+      think: ollamaOptions.think,
+      reasoningEffort: ollamaOptions.reasoningEffort,
+    });
+
+    warnings.push(...thinkWarnings);
+
+    const {
+      tools: compatibleTools,
+      toolChoice: compatibleToolChoice,
+      toolWarnings,
+    } = prepareCompatibleTools({ tools, toolChoice });
+
+    warnings.push(...toolWarnings);
+
+    const { messages: ollamaMessages, warnings: messageWarnings } =
+      convertToOllamaChatMessages({
+        prompt,
+        systemMessageMode: 'system',
+        // tool messages cannot carry images in the OpenAI format:
+        toolResultImageMode: 'user',
+      });
+
+    warnings.push(...messageWarnings);
+
+    const messages = await convertOllamaImagesToBase64(ollamaMessages, {
+      ...this.config.imageDownload,
+      fetch: this.config.fetch,
+      abortSignal,
+    });
+
+    return {
+      args: {
+        // model id:
+        model: this.modelId,
+
+        // standardized settings:
+        max_tokens: maxOutputTokens,
+        temperature,
+        top_p: topP,
+        frequency_penalty: frequencyPenalty,
+        presence_penalty: presencePenalty,
+        stop: stopSequences,
+        seed,
+        response_format:
+          responseFormat?.type === 'json'
+            ? responseFormat.schema != null
+              ? {
+                  type: 'json_schema',
+                  json_schema: {
+                    name: responseFormat.name ?? 'response',
+                    description: responseFormat.description,
+                    schema: responseFormat.schema,
+                  },
+                }
+              : { type: 'json_object' }
+            : undefined,
+
+        // reasoning:
+        reasoning_effort:
+          typeof think === 'string'
+            ? think
+            : think === false
+              ? 'none'
+              : undefined,
+
+        // messages:
+        messages: convertToOllamaCompatibleMessages(messages),
+
+        // tools:
+        tools: compatibleTools,
+        tool_choice: compatibleToolChoice,
+      },
+      warnings,
+      streamTimeouts: ollamaOptions.streamTimeouts,
+      queue: ollamaOptions.queue,
+    };
+  }
+
+  async doGenerate(options: LanguageModelV3CallOptions): Promise<{
+    content: Array<LanguageModelV3Content>;
+    finishReason: LanguageModelV3FinishReason;
+    usage: LanguageModelV3Usage;
+    providerMetadata?: SharedV3ProviderMetadata;
+    warnings: Array<SharedV3Warning>;
+    request?: { body?: unknown };
+    response?: LanguageModelV3ResponseMetadata & {
+      headers?: SharedV3Headers;
+      body?: unknown;
+    };
+  }> {
+    const { args: body, warnings, queue } = await this.getArgs(options);
+
+    const url = this.config.url({
+      path: '/chat/completions',
+      modelId: this.modelId,
+    });
+
+    const {
+      responseHeaders,
+      value: response,
+      rawValue: rawResponse,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: () =>
+                postJsonToApi({
+                  url,
+                  headers: combineHeaders(
+                    this.config.headers(),
+                    options.headers,
+                  ),
+                  body,
+                  failedResponseHandler: ollamaFailedResponseHandler,
+                  successfulResponseHandler: createJsonResponseHandler(
+                    compatibleChatResponseSchema,
+                  ),
+                  abortSignal: options.abortSignal,
+                  fetch: fetch ?? this.config.fetch,
+                }),
+            }),
+        }),
+    });
+
+    const choice = response.choices[0];
+    const content: Array<LanguageModelV3Content> = [];
+
+    const reasoning =
+      choice?.message.reasoning_content ?? choice?.message.reasoning;
+    if (reasoning) {
+      content.push({ type: 'reasoning', text: reasoning });
+    }
+
+    if (choice?.message.content) {
+      content.push({ type: 'text', text: choice.message.content });
+    }
+
+    for (const toolCall of choice?.message.tool_calls ?? []) {
+      content.push({
+        type: 'tool-call',
+        toolCallId: toolCall.id ?? generateId(),
+        toolName: toolCall.function.name,
+        input: toolCall.function.arguments,
+      });
+    }
+
+    return {
+      content,
+      finishReason: mapOllamaFinishReason(choice?.finish_reason ?? undefined),
+      usage: convertCompatibleUsage(response.usage),
+      providerMetadata: { ollama: getQueueMetadata(queueWait) },
+      request: { body },
+      response: {
+        ...getCompatibleResponseMetadata(response),
+        headers: responseHeaders,
+        body: rawResponse,
+      },
+      warnings,
+    };
+  }
+
+  async doStream(options: LanguageModelV3CallOptions): Promise<{
+    stream: ReadableStream<LanguageModelV3StreamPart>;
+    warnings: Array<SharedV3Warning>;
+    request?: { body?: unknown };
+    response?: LanguageModelV3ResponseMetadata & {
+      headers?: SharedV3Headers;
+    };
+  }> {
+    const { args, warnings, streamTimeouts, queue } = await this.getArgs(
+      options,
+    );
+
+    const body = {
+      ...args,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const url = this.config.url({
+      path: '/chat/completions',
+      modelId: this.modelId,
+    });
+
+    const {
+      responseHeaders,
+      value: response,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withStreamConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withStreamRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: async () => {
+                const streamTimeout = new OllamaStreamTimeout({
+                  settings: { ...this.config.streamTimeouts, ...streamTimeouts },
+                  loadTime: this.config.modelLoadTimes?.get(this.modelId),
+                  url,
+                  requestBodyValues: body,
+                  abortSignal: options.abortSignal,
+                });
+
+                const response = await streamTimeout.run(() =>
+                  postJsonToApi({
+                    url,
+                    headers: combineHeaders(
+                      this.config.headers(),
+                      options.headers,
+                    ),
+                    body,
+                    failedResponseHandler: ollamaFailedResponseHandler,
+                    successfulResponseHandler: createEventSourceResponseHandler(
+                      compatibleChatChunkSchema,
+                    ),
+                    abortSignal: streamTimeout.abortSignal,
+                    fetch: fetch ?? this.config.fetch,
+                  }),
+                );
+
+                return {
+                  ...response,
+                  value: streamTimeout.wrapStream(response.value).pipeThrough(
+                    createErrorChunkTransform<
+                      z.infer<typeof compatibleChatChunkSchema>,
+                      CompatibleChatChunk
+                    >({
+                      url,
+                      requestBodyValues: body,
+                      getErrorData: chunk =>
+                        'error' in chunk ? chunk : undefined,
+                    }),
+                  ),
+                };
+              },
+            }),
+        }),
+    });
+
+    let finishReason: LanguageModelV3FinishReason = {
+      unified: 'other',
+      raw: undefined,
+    };
+    let usage = convertCompatibleUsage(undefined);
+    let isFirstChunk = true;
+    const textId = generateId();
+    const reasoningId = generateId();
+    let isTextActive = false;
+    let isReasoningActive = false;
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> =
+      [];
+
+    return {
+      stream: response.pipeThrough(
+        new TransformStream<
+          NdjsonParseResult<CompatibleChatChunk>,
+          LanguageModelV3StreamPart
+        >({
+          transform(chunk, controller) {
+            if (options.includeRawChunks) {
+              controller.enqueue({ type: 'raw', rawValue: chunk.rawValue });
+            }
+
+            // handle error chunks and invalid events:
+            if (!chunk.success) {
+              finishReason = { unified: 'error', raw: undefined };
+              controller.enqueue({ type: 'error', error: chunk.error });
+              return;
+            }
+
+            const value = chunk.value;
+
+            if (isFirstChunk) {
+              isFirstChunk = false;
+
+              controller.enqueue({
+                type: 'response-metadata',
+                ...getCompatibleResponseMetadata(value),
+              });
+            }
+
+            if (value.usage != null) {
+              usage = convertCompatibleUsage(value.usage);
+            }
+
+            const choice = value.choices[0];
+
+            // an error earlier in the stream takes precedence:
+            if (
+              choice?.finish_reason != null &&
+              finishReason.unified !== 'error'
+            ) {
+              finishReason = mapOllamaFinishReason(choice.finish_reason);
+            }
+
+            const delta = choice?.delta;
+
+            if (delta == null) {
+              return;
+            }
+
+            const reasoning = delta.reasoning_content ?? delta.reasoning;
+            if (reasoning) {
+              if (!isReasoningActive) {
+                controller.enqueue({ type: 'reasoning-start', id: reasoningId });
+                isReasoningActive = true;
+              }
+
+              controller.enqueue({
+                type: 'reasoning-delta',
+                id: reasoningId,
+                delta: reasoning,
+              });
+            }
+
+            if (delta.content) {
+              if (isReasoningActive) {
+                controller.enqueue({ type: 'reasoning-end', id: reasoningId });
+                isReasoningActive = false;
+              }
+
+              if (!isTextActive) {
+                controller.enqueue({ type: 'text-start', id: textId });
+                isTextActive = true;
+              }
+
+              controller.enqueue({
+                type: 'text-delta',
+                id: textId,
+                delta: delta.content,
+              });
+            }
+
+            // tool calls are streamed in pieces that share an index:
+            for (const toolCallDelta of delta.tool_calls ?? []) {
+              let toolCall = toolCalls[toolCallDelta.index];
+
+              if (toolCall == null) {
+                toolCall = {
+                  id: toolCallDelta.id ?? generateId(),
+                  name: toolCallDelta.function?.name ?? '',
+                  arguments: '',
+                };
+                toolCalls[toolCallDelta.index] = toolCall;
+
+                controller.enqueue({
+                  type: 'tool-input-start',
+                  id: toolCall.id,
+                  toolName: toolCall.name,
+                });
+              }
+
+              const argumentsDelta = toolCallDelta.function?.arguments;
+              if (argumentsDelta) {
+                toolCall.arguments += argumentsDelta;
+
+                controller.enqueue({
+                  type: 'tool-input-delta',
+                  id: toolCall.id,
+                  delta: argumentsDelta,
+                });
+              }
+            }
+          },
+
+          flush(controller) {
+            if (isReasoningActive) {
+              controller.enqueue({ type: 'reasoning-end', id: reasoningId });
+            }
+
+            if (isTextActive) {
+              controller.enqueue({ type: 'text-end', id: textId });
+            }
+
+            for (const toolCall of toolCalls) {
+              controller.enqueue({ type: 'tool-input-end', id: toolCall.id });
+              controller.enqueue({
+                type: 'tool-call',
+                toolCallId: toolCall.id,
+                toolName: toolCall.name,
+                input: toolCall.arguments || '{}',
+              });
+            }
+
+            controller.enqueue({
+              type: 'finish',
+              finishReason,
+              usage,
+              providerMetadata: { ollama: getQueueMetadata(queueWait) },
+            });
+          },
+        }),
+      ),
+      request: { body },
+      response: { headers: responseHeaders },
+      warnings,
+    };
+  }
+}
+
+const compatibleUsageSchema = z.object({
+  prompt_tokens: z.number().nullish(),
+  completion_tokens: z.number().nullish(),
+  prompt_tokens_details: z
+    .object({ cached_tokens: z.number().nullish() })
+    .nullish(),
+  completion_tokens_details: z
+    .object({ reasoning_tokens: z.number().nullish() })
+    .nullish(),
+});
+
+const compatibleChatResponseSchema = z.object({
+  id: z.string().nullish(),
+  created: z.number().nullish(),
+  model: z.string().nullish(),
+  choices: z.array(
+    z.object({
+      message: z.object({
+        content: z.string().nullish(),
+        // Ollama reports `reasoning`, other servers `reasoning_content`:
+        reasoning: z.string().nullish(),
+        reasoning_content: z.string().nullish(),
+        tool_calls: z
+          .array(
+            z.object({
+              id: z.string().nullish(),
+              function: z.object({
+                name: z.string(),
+                arguments: z.string(),
+              }),
+            }),
+          )
+          .nullish(),
+      }),
+      finish_reason: z.string().nullish(),
+    }),
+  ),
+  usage: compatibleUsageSchema.nullish(),
+});
+
+const compatibleChatChunkSchema = z.union([
+  z.object({
+    id: z.string().nullish(),
+    created: z.number().nullish(),
+    model: z.string().nullish(),
+    choices: z.array(
+      z.object({
+        delta: z
+          .object({
+            content: z.string().nullish(),
+            reasoning: z.string().nullish(),
+            reasoning_content: z.string().nullish(),
+            tool_calls: z
+              .array(
+                z.object({
+                  index: z.number(),
+                  id: z.string().nullish(),
+                  function: z
+                    .object({
+                      name: z.string().nullish(),
+                      arguments: z.string().nullish(),
+                    })
+                    .nullish(),
+                }),
+              )
+              .nullish(),
+          })
+          .nullish(),
+        finish_reason: z.string().nullish(),
+      }),
+    ),
+    usage: compatibleUsageSchema.nullish(),
+  }),
+  ollamaErrorDataSchema,
+]);
+
+type CompatibleChatChunk = Exclude<
+  z.infer<typeof compatibleChatChunkSchema>,
+  z.infer<typeof ollamaErrorDataSchema>
+>;
+
+function convertCompatibleUsage(
+  usage: z.infer<typeof compatibleUsageSchema> | null | undefined,
+): LanguageModelV3Usage {
+  const promptTokens = usage?.prompt_tokens ?? undefined;
+  const completionTokens = usage?.completion_tokens ?? undefined;
+  const cachedTokens =
+    usage?.prompt_tokens_details?.cached_tokens ?? undefined;
+  const reasoningTokens =
+    usage?.completion_tokens_details?.reasoning_tokens ?? undefined;
+
+  return {
+    inputTokens: {
+      total: promptTokens,
+      noCache:
+        promptTokens != null && cachedTokens != null
+          ? promptTokens - cachedTokens
+          : undefined,
+      cacheRead: cachedTokens,
+      cacheWrite: undefined,
+    },
+    outputTokens: {
+      total: completionTokens,
+      text:
+        completionTokens != null && reasoningTokens != null
+          ? completionTokens - reasoningTokens
+          : undefined,
+      reasoning: reasoningTokens,
+    },
+  };
+}
+
+function getCompatibleResponseMetadata({
+  id,
+  model,
+  created,
+}: {
+  id?: string | null;
+  model?: string | null;
+  created?: number | null;
+}) {
+  return {
+    id: id ?? undefined,
+    modelId: model ?? undefined,
+    timestamp: created != null ? new Date(created * 1000) : undefined,
+  };
+}
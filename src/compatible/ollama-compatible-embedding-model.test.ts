@@ -0,0 +1,79 @@
+import { createTestServer } from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+
+const provider = createOllama({ compatibility: 'compatible' });
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/v1/embeddings': {},
+});
+
+function prepareJsonResponse() {
+  server.urls['http://127.0.0.1:11434/v1/embeddings'].response = {
+    type: 'json-value',
+    body: {
+      object: 'list',
+      data: [
+        { object: 'embedding', index: 0, embedding: [0.1, 0.2] },
+        { object: 'embedding', index: 1, embedding: [0.3, 0.4] },
+      ],
+      model: 'nomic-embed-text',
+      usage: { prompt_tokens: 4, total_tokens: 4 },
+    },
+  };
+}
+
+describe('doEmbed', () => {
+  it('should send the request to the OpenAI-compatible endpoint', async () => {
+    prepareJsonResponse();
+
+    const result = await provider
+      .embedding('nomic-embed-text')
+      .doEmbed({ values: ['Hello', 'World'] });
+
+    expect(await server.calls[0].requestBodyJson).toStrictEqual({
+      model: 'nomic-embed-text',
+      input: ['Hello', 'World'],
+      encoding_format: 'float',
+    });
+    expect(result.embeddings).toStrictEqual([
+      [0.1, 0.2],
+      [0.3, 0.4],
+    ]);
+    expect(result.usage).toStrictEqual({ tokens: 4 });
+    expect(result.warnings).toStrictEqual([]);
+  });
+
+  it('should warn about settings of the native API and not send them', async () => {
+    prepareJsonResponse();
+
+    const result = await provider
+      .embedding('nomic-embed-text', { truncate: true, keepAlive: '5m' })
+      .doEmbed({
+        values: ['Hello', 'World'],
+        providerOptions: { ollama: { options: { num_ctx: 8192 } } },
+      });
+
+    expect(await server.calls[0].requestBodyJson).toStrictEqual({
+      model: 'nomic-embed-text',
+      input: ['Hello', 'World'],
+      encoding_format: 'float',
+    });
+    expect(result.warnings).toStrictEqual([
+      {
+        type: 'unsupported',
+        feature: 'providerOptions.ollama.truncate',
+        details: 'Only supported by the native Ollama API.',
+      },
+      {
+        type: 'unsupported',
+        feature: 'providerOptions.ollama.keepAlive',
+        details: 'Only supported by the native Ollama API.',
+      },
+      {
+        type: 'unsupported',
+        feature: 'providerOptions.ollama.options',
+        details: 'Only supported by the native Ollama API.',
+      },
+    ]);
+  });
+});
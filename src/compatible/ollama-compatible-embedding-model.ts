@@ -0,0 +1,183 @@
+import {
+  EmbeddingModelV3,
+  SharedV3Headers,
+  SharedV3ProviderMetadata,
+  SharedV3Warning,
+  TooManyEmbeddingValuesForCallError,
+} from '@ai-sdk/provider';
+import {
+  combineHeaders,
+  createJsonResponseHandler,
+  parseProviderOptions,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod/v4';
+import {
+  getQueueMetadata,
+  ollamaQueueOptions,
+  withConcurrencyLimit,
+} from '../common/ollama-concurrency-limiter';
+import { OllamaConfig } from '../common/ollama-config';
+import { ollamaRuntimeOptions } from '../common/ollama-runtime-options';
+import { withRetry } from '../common/ollama-retry';
+import { ollamaFailedResponseHandler } from '../completion/ollama-error';
+import {
+  OllamaEmbeddingModelId,
+  OllamaEmbeddingSettings,
+} from '../embedding/ollama-embedding-settings';
+import { withAutoPull } from '../management/ollama-auto-pull';
+import {
+  getNativeOnlyOptionWarnings,
+  NATIVE_ONLY_EMBEDDING_OPTIONS,
+} from './get-native-only-option-warnings';
+
+const ollamaCompatibleEmbeddingProviderOptions = z.object({
+  dimensions: z.number().optional(),
+  queue: ollamaQueueOptions.optional(),
+
+  // only parsed to report them as unsupported:
+  truncate: z.boolean().optional(),
+  keepAlive: z.union([z.string(), z.number()]).optional(),
+  options: ollamaRuntimeOptions.optional(),
+});
+
+/**
+ * Embedding model for the OpenAI-compatible `/v1/embeddings` endpoint of
+ * Ollama and of Ollama-like servers.
+ */
+export class OllamaCompatibleEmbeddingModel implements EmbeddingModelV3 {
+  readonly specificationVersion = 'v3' as const;
+  readonly modelId: OllamaEmbeddingModelId;
+  readonly provider: string;
+  readonly maxEmbeddingsPerCall: number | undefined;
+  readonly supportsParallelCalls: boolean;
+
+  private readonly config: OllamaConfig;
+  private readonly settings: OllamaEmbeddingSettings;
+
+  constructor(
+    modelId: OllamaEmbeddingModelId,
+    settings: OllamaEmbeddingSettings,
+    config: OllamaConfig,
+  ) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+    this.provider = config.provider;
+    this.maxEmbeddingsPerCall = settings.maxEmbeddingsPerCall ?? 2048;
+    this.supportsParallelCalls = settings.supportsParallelCalls ?? true;
+  }
+
+  async doEmbed({
+    values,
+    headers,
+    abortSignal,
+    providerOptions,
+  }: {
+    values: Array<string>;
+    headers?: Record<string, string | undefined>;
+    abortSignal?: AbortSignal;
+    providerOptions?: Record<string, Record<string, unknown>>;
+  }): Promise<{
+    embeddings: Array<Array<number>>;
+    usage?: { tokens: number };
+    providerMetadata?: SharedV3ProviderMetadata;
+    response?: {
+      headers?: SharedV3Headers;
+      body?: unknown;
+    };
+    warnings: Array<SharedV3Warning>;
+  }> {
+    if (
+      this.maxEmbeddingsPerCall &&
+      values.length > this.maxEmbeddingsPerCall
+    ) {
+      throw new TooManyEmbeddingValuesForCallError({
+        provider: this.provider,
+        modelId: this.modelId,
+        maxEmbeddingsPerCall: this.maxEmbeddingsPerCall,
+        values,
+      });
+    }
+
+    const ollamaOptions = await parseProviderOptions({
+      provider: 'ollama',
+      providerOptions,
+      schema: ollamaCompatibleEmbeddingProviderOptions,
+    });
+
+    const warnings = getNativeOnlyOptionWarnings(
+      {
+        truncate: ollamaOptions?.truncate ?? this.settings.truncate,
+        keepAlive: ollamaOptions?.keepAlive ?? this.settings.keepAlive,
+        options: ollamaOptions?.options ?? this.settings.options,
+      },
+      NATIVE_ONLY_EMBEDDING_OPTIONS,
+    );
+
+    const body = {
+      model: this.modelId,
+      input: values,
+      encoding_format: 'float',
+      dimensions: ollamaOptions?.dimensions ?? this.settings.dimensions,
+    };
+
+    const url = this.config.url({
+      path: '/embeddings',
+      modelId: this.modelId,
+    });
+
+    const {
+      responseHeaders,
+      value: response,
+      rawValue,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue: ollamaOptions?.queue,
+          abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withRetry({
+              retry: this.config.retry,
+              abortSignal,
+              request: () =>
+                postJsonToApi({
+                  url,
+                  headers: combineHeaders(this.config.headers(), headers),
+                  body,
+                  failedResponseHandler: ollamaFailedResponseHandler,
+                  successfulResponseHandler: createJsonResponseHandler(
+                    compatibleEmbeddingResponseSchema,
+                  ),
+                  abortSignal,
+                  fetch: fetch ?? this.config.fetch,
+                }),
+            }),
+        }),
+    });
+
+    return {
+      embeddings: response.data.map(item => item.embedding),
+      usage:
+        response.usage?.prompt_tokens != null
+          ? { tokens: response.usage.prompt_tokens }
+          : undefined,
+      providerMetadata: { ollama: getQueueMetadata(queueWait) },
+      response: { headers: responseHeaders, body: rawValue },
+      warnings,
+    };
+  }
+}
+
+// minimal version of the schema, focussed on what is needed for the implementation
+const compatibleEmbeddingResponseSchema = z.object({
+  data: z.array(z.object({ embedding: z.array(z.number()) })),
+  usage: z.object({ prompt_tokens: z.number().nullish() }).nullish(),
+});
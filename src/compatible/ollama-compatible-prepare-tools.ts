@@ -0,0 +1,96 @@
+import {
+  JSONSchema7,
+  LanguageModelV3CallOptions,
+  SharedV3Warning,
+  UnsupportedFunctionalityError,
+} from '@ai-sdk/provider';
+
+export type OllamaCompatibleTool = {
+  type: 'function';
+  function: {
+    name: string;
+    description: string | undefined;
+    parameters: JSONSchema7;
+  };
+};
+
+export type OllamaCompatibleToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+/**
+ * Converts the function tools and the tool choice into their OpenAI chat
+ * completion format. Unlike the native API, the tool choice is passed on.
+ * Provider-defined tools such as OpenAI's `web_search_preview` are not
+ * implemented by Ollama and are reported as warnings.
+ */
+export function prepareCompatibleTools({
+  tools,
+  toolChoice,
+}: {
+  tools: LanguageModelV3CallOptions['tools'];
+  toolChoice?: LanguageModelV3CallOptions['toolChoice'];
+}): {
+  tools?: Array<OllamaCompatibleTool>;
+  toolChoice?: OllamaCompatibleToolChoice;
+  toolWarnings: SharedV3Warning[];
+} {
+  const toolWarnings: SharedV3Warning[] = [];
+
+  // when the tools array is empty, change it to undefined to prevent errors:
+  if (!tools?.length) {
+    return { tools: undefined, toolChoice: undefined, toolWarnings };
+  }
+
+  const compatibleTools: Array<OllamaCompatibleTool> = [];
+
+  for (const tool of tools) {
+    if (tool.type !== 'function') {
+      toolWarnings.push({
+        type: 'unsupported',
+        feature: 'tool',
+        details: tool.name,
+      });
+      continue;
+    }
+
+    compatibleTools.push({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      },
+    });
+  }
+
+  if (toolChoice == null) {
+    return { tools: compatibleTools, toolChoice: undefined, toolWarnings };
+  }
+
+  const type = toolChoice.type;
+
+  switch (type) {
+    case 'auto':
+    case 'none':
+    case 'required':
+      return { tools: compatibleTools, toolChoice: type, toolWarnings };
+    case 'tool':
+      return {
+        tools: compatibleTools,
+        toolChoice: {
+          type: 'function',
+          function: { name: toolChoice.toolName },
+        },
+        toolWarnings,
+      };
+    default: {
+      const _exhaustiveCheck: never = type;
+      throw new UnsupportedFunctionalityError({
+        functionality: `tool choice type: ${_exhaustiveCheck}`,
+      });
+    }
+  }
+}
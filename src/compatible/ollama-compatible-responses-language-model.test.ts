@@ -0,0 +1,529 @@
+import { LanguageModelV3Prompt } from '@ai-sdk/provider';
+import {
+  convertReadableStreamToArray,
+  createTestServer,
+} from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+import {
+  OllamaModelLoadError,
+  OllamaStreamTimeoutError,
+} from '../completion/ollama-error';
+
+const TEST_PROMPT: LanguageModelV3Prompt = [
+  { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+];
+
+const provider = createOllama();
+const model = provider.responses('llama3.2');
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/v1/responses': {},
+});
+
+function prepareJsonResponse(body: Record<string, unknown>) {
+  server.urls['http://127.0.0.1:11434/v1/responses'].response = {
+    type: 'json-value',
+    body: {
+      id: 'resp_1',
+      object: 'response',
+      created_at: 1711115037,
+      model: 'llama3.2',
+      status: 'completed',
+      ...body,
+    },
+  };
+}
+
+function prepareStreamResponse(events: Array<Record<string, unknown>>) {
+  server.urls['http://127.0.0.1:11434/v1/responses'].response = {
+    type: 'stream-chunks',
+    chunks: events.map(
+      event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+    ),
+  };
+}
+
+const createdEvent = {
+  type: 'response.created',
+  response: {
+    id: 'resp_1',
+    created_at: 1711115037,
+    model: 'llama3.2',
+    status: 'in_progress',
+  },
+};
+
+describe('doGenerate', () => {
+  it('should send the prompt as Responses API input items', async () => {
+    prepareJsonResponse({ output: [] });
+
+    await model.doGenerate({
+      prompt: [
+        { role: 'system', content: 'You are helpful.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            {
+              type: 'file',
+              mediaType: 'image/png',
+              data: new Uint8Array([0, 1, 2, 3]),
+            },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'call_1',
+              toolName: 'describe',
+              input: { detail: 'high' },
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'describe',
+              output: { type: 'text', value: 'A cat.' },
+            },
+          ],
+        },
+      ],
+      maxOutputTokens: 100,
+      temperature: 0.5,
+    });
+
+    expect(await server.calls[0].requestBodyJson).toStrictEqual({
+      model: 'llama3.2',
+      max_output_tokens: 100,
+      temperature: 0.5,
+      input: [
+        { role: 'system', content: 'You are helpful.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'input_text', text: 'What is this?' },
+            { type: 'input_image', image_url: 'data:image/png;base64,AAECAw==' },
+          ],
+        },
+        {
+          type: 'function_call',
+          call_id: 'call_1',
+          name: 'describe',
+          arguments: '{"detail":"high"}',
+        },
+        { type: 'function_call_output', call_id: 'call_1', output: 'A cat.' },
+      ],
+    });
+  });
+
+  it('should extract output items, usage and the response id', async () => {
+    prepareJsonResponse({
+      output: [
+        {
+          type: 'reasoning',
+          id: 'rs_1',
+          summary: [{ type: 'summary_text', text: 'The user greets me.' }],
+        },
+        {
+          type: 'message',
+          id: 'msg_1',
+          role: 'assistant',
+          content: [{ type: 'output_text', text: 'Hello!', annotations: [] }],
+        },
+      ],
+      usage: {
+        input_tokens: 10,
+        output_tokens: 20,
+        total_tokens: 30,
+        output_tokens_details: { reasoning_tokens: 5 },
+      },
+    });
+
+    const result = await model.doGenerate({ prompt: TEST_PROMPT });
+
+    expect(result.content).toStrictEqual([
+      { type: 'reasoning', text: 'The user greets me.' },
+      { type: 'text', text: 'Hello!' },
+    ]);
+    expect(result.finishReason).toStrictEqual({
+      unified: 'stop',
+      raw: undefined,
+    });
+    expect(result.usage.outputTokens).toStrictEqual({
+      total: 20,
+      text: 15,
+      reasoning: 5,
+    });
+    expect(result.providerMetadata).toStrictEqual({
+      ollama: { responseId: 'resp_1' },
+    });
+    expect(result.response).toMatchObject({
+      id: 'resp_1',
+      modelId: 'llama3.2',
+      timestamp: new Date(1711115037 * 1000),
+    });
+  });
+
+  it('should send flat function tools and extract function calls', async () => {
+    prepareJsonResponse({
+      output: [
+        {
+          type: 'function_call',
+          id: 'fc_1',
+          call_id: 'call_1',
+          name: 'weather',
+          arguments: '{"city":"Paris"}',
+          status: 'completed',
+        },
+      ],
+    });
+
+    const result = await model.doGenerate({
+      prompt: TEST_PROMPT,
+      tools: [
+        {
+          type: 'function',
+          name: 'weather',
+          description: 'Get the weather',
+          inputSchema: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+          },
+        },
+      ],
+      toolChoice: { type: 'tool', toolName: 'weather' },
+    });
+
+    expect(await server.calls[0].requestBodyJson).toMatchObject({
+      tools: [
+        {
+          type: 'function',
+          name: 'weather',
+          description: 'Get the weather',
+          parameters: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+          },
+        },
+      ],
+      tool_choice: { type: 'function', name: 'weather' },
+    });
+    expect(result.content).toStrictEqual([
+      {
+        type: 'tool-call',
+        toolCallId: 'call_1',
+        toolName: 'weather',
+        input: '{"city":"Paris"}',
+      },
+    ]);
+    expect(result.finishReason.unified).toBe('tool-calls');
+  });
+
+  it('should warn about provider-defined tools and not send them', async () => {
+    prepareJsonResponse({ output: [] });
+
+    const result = await model.doGenerate({
+      prompt: TEST_PROMPT,
+      tools: [
+        {
+          type: 'provider',
+          id: 'openai.web_search_preview',
+          name: 'web_search_preview',
+          args: {},
+        },
+        {
+          type: 'function',
+          name: 'weather',
+          inputSchema: { type: 'object', properties: {} },
+        },
+      ],
+    });
+
+    expect(
+      ((await server.calls[0].requestBodyJson) as { tools: unknown }).tools,
+    ).toStrictEqual([
+      {
+        type: 'function',
+        name: 'weather',
+        parameters: { type: 'object', properties: {} },
+      },
+    ]);
+    expect(result.warnings).toStrictEqual([
+      { type: 'unsupported', feature: 'tool', details: 'web_search_preview' },
+    ]);
+  });
+
+  it('should chain requests with previousResponseId', async () => {
+    prepareJsonResponse({ output: [] });
+
+    await model.doGenerate({
+      prompt: TEST_PROMPT,
+      providerOptions: {
+        ollama: { previousResponseId: 'resp_0', store: true },
+      },
+    });
+
+    expect(await server.calls[0].requestBodyJson).toMatchObject({
+      previous_response_id: 'resp_0',
+      store: true,
+    });
+  });
+
+  it('should map incomplete responses and warn about unsupported settings', async () => {
+    prepareJsonResponse({
+      status: 'incomplete',
+      incomplete_details: { reason: 'max_output_tokens' },
+      output: [],
+    });
+
+    const result = await model.doGenerate({
+      prompt: TEST_PROMPT,
+      topK: 40,
+      seed: 42,
+      providerOptions: { ollama: { keepAlive: '5m' } },
+    });
+
+    expect(result.finishReason).toStrictEqual({
+      unified: 'length',
+      raw: 'max_output_tokens',
+    });
+    expect(result.warnings).toStrictEqual([
+      {
+        type: 'unsupported',
+        feature: 'providerOptions.ollama.keepAlive',
+        details: 'Only supported by the native Ollama API.',
+      },
+      { type: 'unsupported', feature: 'topK' },
+      { type: 'unsupported', feature: 'seed' },
+    ]);
+  });
+});
+
+describe('doStream', () => {
+  it('should stream text, reasoning, usage and the response id', async () => {
+    prepareStreamResponse([
+      createdEvent,
+      {
+        type: 'response.output_item.added',
+        output_index: 0,
+        item: { type: 'reasoning', id: 'rs_1', summary: [] },
+      },
+      {
+        type: 'response.reasoning_summary_text.delta',
+        output_index: 0,
+        item_id: 'rs_1',
+        delta: 'Thinking.',
+      },
+      {
+        type: 'response.output_item.done',
+        output_index: 0,
+        item: { type: 'reasoning', id: 'rs_1', summary: [] },
+      },
+      {
+        type: 'response.output_item.added',
+        output_index: 1,
+        item: { type: 'message', id: 'msg_1', role: 'assistant', content: [] },
+      },
+      {
+        type: 'response.output_text.delta',
+        output_index: 1,
+        item_id: 'msg_1',
+        content_index: 0,
+        delta: 'Hello',
+      },
+      {
+        type: 'response.output_text.delta',
+        output_index: 1,
+        item_id: 'msg_1',
+        content_index: 0,
+        delta: '!',
+      },
+      {
+        type: 'response.output_item.done',
+        output_index: 1,
+        item: { type: 'message', id: 'msg_1', role: 'assistant', content: [] },
+      },
+      {
+        type: 'response.completed',
+        response: {
+          ...createdEvent.response,
+          status: 'completed',
+          usage: { input_tokens: 10, output_tokens: 3, total_tokens: 13 },
+        },
+      },
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(await server.calls[0].requestBodyJson).toMatchObject({
+      stream: true,
+    });
+    expect(parts).toStrictEqual([
+      {
+        type: 'response-metadata',
+        id: 'resp_1',
+        modelId: 'llama3.2',
+        timestamp: new Date(1711115037 * 1000),
+      },
+      { type: 'reasoning-start', id: 'rs_1' },
+      { type: 'reasoning-delta', id: 'rs_1', delta: 'Thinking.' },
+      { type: 'reasoning-end', id: 'rs_1' },
+      { type: 'text-start', id: 'msg_1' },
+      { type: 'text-delta', id: 'msg_1', delta: 'Hello' },
+      { type: 'text-delta', id: 'msg_1', delta: '!' },
+      { type: 'text-end', id: 'msg_1' },
+      {
+        type: 'finish',
+        finishReason: { unified: 'stop', raw: undefined },
+        usage: {
+          inputTokens: {
+            total: 10,
+            noCache: undefined,
+            cacheRead: undefined,
+            cacheWrite: undefined,
+          },
+          outputTokens: { total: 3, text: undefined, reasoning: undefined },
+        },
+        providerMetadata: { ollama: { responseId: 'resp_1' } },
+      },
+    ]);
+  });
+
+  it('should stream function call arguments', async () => {
+    const item = {
+      type: 'function_call',
+      id: 'fc_1',
+      call_id: 'call_1',
+      name: 'weather',
+      arguments: '',
+    };
+
+    prepareStreamResponse([
+      createdEvent,
+      { type: 'response.output_item.added', output_index: 0, item },
+      {
+        type: 'response.function_call_arguments.delta',
+        output_index: 0,
+        item_id: 'fc_1',
+        delta: '{"city":',
+      },
+      {
+        type: 'response.function_call_arguments.delta',
+        output_index: 0,
+        item_id: 'fc_1',
+        delta: '"Paris"}',
+      },
+      {
+        type: 'response.output_item.done',
+        output_index: 0,
+        item: { ...item, arguments: '{"city":"Paris"}' },
+      },
+      { type: 'response.completed', response: createdEvent.response },
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.filter(part => part.type !== 'response-metadata')).toMatchObject(
+      [
+        { type: 'tool-input-start', id: 'call_1', toolName: 'weather' },
+        { type: 'tool-input-delta', id: 'call_1', delta: '{"city":' },
+        { type: 'tool-input-delta', id: 'call_1', delta: '"Paris"}' },
+        { type: 'tool-input-end', id: 'call_1' },
+        {
+          type: 'tool-call',
+          toolCallId: 'call_1',
+          toolName: 'weather',
+          input: '{"city":"Paris"}',
+        },
+        { type: 'finish', finishReason: { unified: 'tool-calls' } },
+      ],
+    );
+  });
+
+  it('should emit classified error parts for failed responses', async () => {
+    prepareStreamResponse([
+      createdEvent,
+      {
+        type: 'response.failed',
+        response: {
+          ...createdEvent.response,
+          status: 'failed',
+          error: {
+            code: 'server_error',
+            message: 'llama runner process has terminated: exit status 2',
+          },
+        },
+      },
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+    const errorPart = parts.find(part => part.type === 'error');
+
+    expect(errorPart?.type === 'error' && errorPart.error).toBeInstanceOf(
+      OllamaModelLoadError,
+    );
+    expect(parts[parts.length - 1]).toMatchObject({
+      type: 'finish',
+      finishReason: { unified: 'error' },
+      providerMetadata: { ollama: { responseId: 'resp_1' } },
+    });
+  });
+
+  it('should keep the error finish reason when the response completes later', async () => {
+    prepareStreamResponse([
+      createdEvent,
+      {
+        type: 'error',
+        message: 'an error was encountered while running the model',
+      },
+      { type: 'response.completed', response: createdEvent.response },
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.some(part => part.type === 'error')).toBe(true);
+    expect(parts[parts.length - 1]).toMatchObject({
+      type: 'finish',
+      finishReason: { unified: 'error', raw: undefined },
+    });
+  });
+
+  it('should apply the provider stream timeouts', async () => {
+    const timeoutModel = createOllama({
+      // responds with the created event and keeps the stream open:
+      fetch: async () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(
+                new TextEncoder().encode(
+                  `event: response.created\ndata: ${JSON.stringify(createdEvent)}\n\n`,
+                ),
+              );
+            },
+          }),
+        ),
+      streamTimeouts: { idleTimeout: 20 },
+    }).responses('llama3.2');
+
+    const { stream } = await timeoutModel.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+    const errorPart = parts.find(part => part.type === 'error');
+
+    expect(
+      errorPart?.type === 'error' &&
+        OllamaStreamTimeoutError.isInstance(errorPart.error) &&
+        errorPart.error.timeoutType,
+    ).toBe('idle');
+  });
+});
@@ -0,0 +1,753 @@
+import {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3FinishReason,
+  LanguageModelV3ResponseMetadata,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+  SharedV3Headers,
+  SharedV3ProviderMetadata,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import {
+  combineHeaders,
+  createEventSourceResponseHandler,
+  createJsonResponseHandler,
+  generateId,
+  parseProviderOptions,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod/v4';
+import { mapOllamaThink } from '../adaptors/map-ollama-think';
+import { mergeOptions } from '../common/merge-options';
+import { NdjsonParseResult } from '../common/ndjson-stream-handler';
+import {
+  getQueueMetadata,
+  withConcurrencyLimit,
+  withStreamConcurrencyLimit,
+} from '../common/ollama-concurrency-limiter';
+import { OllamaConfig } from '../common/ollama-config';
+import { withRetry, withStreamRetry } from '../common/ollama-retry';
+import { OllamaStreamTimeout } from '../common/ollama-stream-timeout';
+import { ollamaFailedResponseHandler } from '../completion/ollama-error';
+import { withAutoPull } from '../management/ollama-auto-pull';
+import {
+  OllamaChatModelId,
+  ollamaProviderOptions,
+} from '../ollama-chat-settings';
+import { convertToOllamaResponsesMessages } from '../responses/convert-to-ollama-responses-messages';
+import { createErrorChunkTransform } from './create-error-chunk-transform';
+import { getNativeOnlyOptionWarnings } from './get-native-only-option-warnings';
+import { prepareCompatibleTools } from './ollama-compatible-prepare-tools';
+
+const ollamaCompatibleResponsesProviderOptions = ollamaProviderOptions.extend({
+  /**
+   * Id of a previous response that the request continues. The server then
+   * provides the earlier conversation, so only the new messages are sent.
+   */
+  previousResponseId: z.string().optional(),
+
+  /**
+   * Whether the server stores the response so that it can be continued with
+   * `previousResponseId`.
+   */
+  store: z.boolean().optional(),
+});
+
+export type OllamaCompatibleResponsesProviderOptions = z.infer<
+  typeof ollamaCompatibleResponsesProviderOptions
+>;
+
+/**
+ * Language model for the OpenAI-compatible `/v1/responses` endpoint of Ollama.
+ * Prompts are sent as Responses API input items and the response id is
+ * returned as `providerMetadata.ollama.responseId` for chaining requests.
+ */
+export class OllamaCompatibleResponsesLanguageModel implements LanguageModelV3 {
+  readonly specificationVersion = 'v3' as const;
+  readonly modelId: OllamaChatModelId;
+  readonly settings: OllamaCompatibleResponsesProviderOptions;
+  readonly provider: string;
+
+  private readonly config: OllamaConfig;
+
+  constructor(
+    modelId: OllamaChatModelId,
+    settings: OllamaCompatibleResponsesProviderOptions,
+    config: OllamaConfig,
+  ) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+    this.provider = config.provider;
+  }
+
+  // image URLs are downloaded by the AI SDK, since input items need data URLs:
+  readonly supportedUrls: Record<string, RegExp[]> = {};
+
+  private async getArgs({
+    prompt,
+    maxOutputTokens,
+    temperature,
+    topP,
+    topK,
+    frequencyPenalty,
+    presencePenalty,
+    stopSequences,
+    responseFormat,
+    seed,
+    tools,
+    toolChoice,
+    providerOptions,
+  }: LanguageModelV3CallOptions) {
+    const warnings: SharedV3Warning[] = [];
+
+    const callOptions = await parseProviderOptions({
+      provider: 'ollama',
+      providerOptions,
+      schema: ollamaCompatibleResponsesProviderOptions,
+    });
+    const ollamaOptions = mergeOptions(this.settings, callOptions ?? {});
+
+    warnings.push(...getNativeOnlyOptionWarnings(ollamaOptions));
+
+    const unsupportedSettings = {
+      topK,
+      frequencyPenalty,
+      presencePenalty,
+      stopSequences,
+      seed,
+    };
+
+    for (const [setting, value] of Object.entries(unsupportedSettings)) {
+      if (value != null) {
+        warnings.push({ type: 'unsupported', feature: setting });
+      }
+    }
+
+    const { think, warnings: thinkWarnings } = mapOllamaThink({
+      modelId: this.modelId,
+      think: ollamaOptions.think,
+      reasoningEffort: ollamaOptions.reasoningEffort,
+    });
+
+    warnings.push(...thinkWarnings);
+
+    const {
+      tools: compatibleTools,
+      toolChoice: compatibleToolChoice,
+      toolWarnings,
+    } = prepareCompatibleTools({ tools, toolChoice });
+
+    warnings.push(...toolWarnings);
+
+    const { messages, warnings: messageWarnings } =
+      convertToOllamaResponsesMessages({
+        prompt,
+        systemMessageMode: 'system',
+      });
+
+    warnings.push(...messageWarnings);
+
+    return {
+      args: {
+        // model id:
+        model: this.modelId,
+
+        // standardized settings:
+        max_output_tokens: maxOutputTokens,
+        temperature,
+        top_p: topP,
+        text:
+          responseFormat?.type === 'json'
+            ? {
+                format:
+                  responseFormat.schema != null
+                    ? {
+                        type: 'json_schema',
+                        name: responseFormat.name ?? 'response',
+                        description: responseFormat.description,
+                        schema: responseFormat.schema,
+                      }
+                    : { type: 'json_object' },
+              }
+            : undefined,
+
+        // reasoning:
+        reasoning:
+          typeof think === 'string'
+            ? { effort: think }
+            : think === false
+              ? { effort: 'none' }
+              : undefined,
+
+        // conversation state:
+        previous_response_id: ollamaOptions.previousResponseId,
+        store: ollamaOptions.store,
+
+        // input items:
+        input: messages,
+
+        // tools (the Responses API does not nest the function definition):
+        tools: compatibleTools?.map(tool => ({
+          type: 'function',
+          name: tool.function.name,
+          description: tool.function.description,
+          parameters: tool.function.parameters,
+        })),
+        tool_choice:
+          typeof compatibleToolChoice === 'object'
+            ? { type: 'function', name: compatibleToolChoice.function.name }
+            : compatibleToolChoice,
+      },
+      warnings,
+      streamTimeouts: ollamaOptions.streamTimeouts,
+      queue: ollamaOptions.queue,
+    };
+  }
+
+  async doGenerate(options: LanguageModelV3CallOptions): Promise<{
+    content: Array<LanguageModelV3Content>;
+    finishReason: LanguageModelV3FinishReason;
+    usage: LanguageModelV3Usage;
+    providerMetadata?: SharedV3ProviderMetadata;
+    warnings: Array<SharedV3Warning>;
+    request?: { body?: unknown };
+    response?: LanguageModelV3ResponseMetadata & {
+      headers?: SharedV3Headers;
+      body?: unknown;
+    };
+  }> {
+    const { args: body, warnings, queue } = await this.getArgs(options);
+
+    const url = this.config.url({
+      path: '/responses',
+      modelId: this.modelId,
+    });
+
+    const {
+      responseHeaders,
+      value: response,
+      rawValue: rawResponse,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: () =>
+                postJsonToApi({
+                  url,
+                  headers: combineHeaders(
+                    this.config.headers(),
+                    options.headers,
+                  ),
+                  body,
+                  failedResponseHandler: ollamaFailedResponseHandler,
+                  successfulResponseHandler: createJsonResponseHandler(
+                    responsesResponseSchema,
+                  ),
+                  abortSignal: options.abortSignal,
+                  fetch: fetch ?? this.config.fetch,
+                }),
+            }),
+        }),
+    });
+
+    const content: Array<LanguageModelV3Content> = [];
+    let hasToolCalls = false;
+
+    for (const item of response.output ?? []) {
+      switch (item.type) {
+        case 'reasoning': {
+          // reasoning text, or a summary when the server only provides that:
+          for (const part of item.content ?? item.summary ?? []) {
+            if (part.text) {
+              content.push({ type: 'reasoning', text: part.text });
+            }
+          }
+          break;
+        }
+
+        case 'message': {
+          for (const part of item.content ?? []) {
+            if (part.type === 'output_text' && part.text) {
+              content.push({ type: 'text', text: part.text });
+            }
+          }
+          break;
+        }
+
+        case 'function_call': {
+          hasToolCalls = true;
+          content.push({
+            type: 'tool-call',
+            toolCallId: item.call_id ?? generateId(),
+            toolName: item.name ?? '',
+            input: item.arguments ?? '{}',
+          });
+          break;
+        }
+      }
+    }
+
+    return {
+      content,
+      finishReason: mapResponsesFinishReason({
+        incompleteReason: response.incomplete_details?.reason,
+        hasToolCalls,
+      }),
+      usage: convertResponsesUsage(response.usage),
+      providerMetadata: {
+        ollama: {
+          ...(response.id != null && { responseId: response.id }),
+          ...getQueueMetadata(queueWait),
+        },
+      },
+      request: { body },
+      response: {
+        ...getResponsesResponseMetadata(response),
+        headers: responseHeaders,
+        body: rawResponse,
+      },
+      warnings,
+    };
+  }
+
+  async doStream(options: LanguageModelV3CallOptions): Promise<{
+    stream: ReadableStream<LanguageModelV3StreamPart>;
+    warnings: Array<SharedV3Warning>;
+    request?: { body?: unknown };
+    response?: LanguageModelV3ResponseMetadata & {
+      headers?: SharedV3Headers;
+    };
+  }> {
+    const { args, warnings, streamTimeouts, queue } = await this.getArgs(
+      options,
+    );
+
+    const body = { ...args, stream: true };
+
+    const url = this.config.url({
+      path: '/responses',
+      modelId: this.modelId,
+    });
+
+    const {
+      responseHeaders,
+      value: response,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withStreamConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withStreamRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: async () => {
+                const streamTimeout = new OllamaStreamTimeout({
+                  settings: { ...this.config.streamTimeouts, ...streamTimeouts },
+                  loadTime: this.config.modelLoadTimes?.get(this.modelId),
+                  url,
+                  requestBodyValues: body,
+                  abortSignal: options.abortSignal,
+                });
+
+                const response = await streamTimeout.run(() =>
+                  postJsonToApi({
+                    url,
+                    headers: combineHeaders(
+                      this.config.headers(),
+                      options.headers,
+                    ),
+                    body,
+                    failedResponseHandler: ollamaFailedResponseHandler,
+                    successfulResponseHandler: createEventSourceResponseHandler(
+                      responsesEventSchema,
+                    ),
+                    abortSignal: streamTimeout.abortSignal,
+                    fetch: fetch ?? this.config.fetch,
+                  }),
+                );
+
+                return {
+                  ...response,
+                  value: streamTimeout.wrapStream(response.value).pipeThrough(
+                    createErrorChunkTransform({
+                      url,
+                      requestBodyValues: body,
+                      getErrorData: getResponsesEventError,
+                    }),
+                  ),
+                };
+              },
+            }),
+        }),
+    });
+
+    let finishReason: LanguageModelV3FinishReason = {
+      unified: 'other',
+      raw: undefined,
+    };
+    let usage = convertResponsesUsage(undefined);
+    let responseId: string | undefined;
+    let hasToolCalls = false;
+
+    // output items that are being streamed, by their output index:
+    const openItems = new Map<number, OpenItem>();
+
+    return {
+      stream: response.pipeThrough(
+        new TransformStream<
+          NdjsonParseResult<ResponsesEvent>,
+          LanguageModelV3StreamPart
+        >({
+          transform(chunk, controller) {
+            if (options.includeRawChunks) {
+              controller.enqueue({ type: 'raw', rawValue: chunk.rawValue });
+            }
+
+            // handle error events and invalid events:
+            if (!chunk.success) {
+              finishReason = { unified: 'error', raw: undefined };
+              controller.enqueue({ type: 'error', error: chunk.error });
+              return;
+            }
+
+            const event = chunk.value;
+
+            // text and reasoning deltas can arrive without an added item:
+            const startItem = (type: 'text' | 'reasoning', itemId?: string) => {
+              const outputIndex = event.output_index ?? 0;
+              const openItem = openItems.get(outputIndex);
+
+              if (openItem != null) {
+                return openItem.id;
+              }
+
+              const id = itemId ?? generateId();
+              openItems.set(outputIndex, { type, id });
+              controller.enqueue(
+                type === 'text'
+                  ? { type: 'text-start', id }
+                  : { type: 'reasoning-start', id },
+              );
+              return id;
+            };
+
+            switch (event.type) {
+              case 'response.created': {
+                responseId = event.response?.id ?? undefined;
+
+                controller.enqueue({
+                  type: 'response-metadata',
+                  ...getResponsesResponseMetadata(event.response ?? {}),
+                });
+                break;
+              }
+
+              case 'response.output_item.added': {
+                const item = event.item;
+
+                if (item?.type === 'message') {
+                  startItem('text', item.id ?? undefined);
+                } else if (item?.type === 'reasoning') {
+                  startItem('reasoning', item.id ?? undefined);
+                } else if (item?.type === 'function_call') {
+                  const id = item.call_id ?? generateId();
+                  openItems.set(event.output_index ?? 0, { type: 'tool', id });
+
+                  controller.enqueue({
+                    type: 'tool-input-start',
+                    id,
+                    toolName: item.name ?? '',
+                  });
+                }
+                break;
+              }
+
+              case 'response.output_text.delta': {
+                if (event.delta) {
+                  controller.enqueue({
+                    type: 'text-delta',
+                    id: startItem('text', event.item_id ?? undefined),
+                    delta: event.delta,
+                  });
+                }
+                break;
+              }
+
+              case 'response.reasoning_text.delta':
+              case 'response.reasoning_summary_text.delta': {
+                if (event.delta) {
+                  controller.enqueue({
+                    type: 'reasoning-delta',
+                    id: startItem('reasoning', event.item_id ?? undefined),
+                    delta: event.delta,
+                  });
+                }
+                break;
+              }
+
+              case 'response.function_call_arguments.delta': {
+                const openItem = openItems.get(event.output_index ?? 0);
+
+                if (openItem?.type === 'tool' && event.delta) {
+                  controller.enqueue({
+                    type: 'tool-input-delta',
+                    id: openItem.id,
+                    delta: event.delta,
+                  });
+                }
+                break;
+              }
+
+              case 'response.output_item.done': {
+                const outputIndex = event.output_index ?? 0;
+                const openItem = openItems.get(outputIndex);
+                openItems.delete(outputIndex);
+
+                if (openItem != null) {
+                  controller.enqueue(getItemEndPart(openItem));
+                }
+
+                const item = event.item;
+
+                if (item?.type === 'function_call') {
+                  hasToolCalls = true;
+                  controller.enqueue({
+                    type: 'tool-call',
+                    toolCallId: openItem?.id ?? item.call_id ?? generateId(),
+                    toolName: item.name ?? '',
+                    input: item.arguments || '{}',
+                  });
+                }
+                break;
+              }
+
+              case 'response.completed':
+              case 'response.incomplete': {
+                responseId = event.response?.id ?? responseId;
+                usage = convertResponsesUsage(event.response?.usage);
+
+                // an error earlier in the stream takes precedence:
+                if (finishReason.unified !== 'error') {
+                  finishReason = mapResponsesFinishReason({
+                    incompleteReason: event.response?.incomplete_details?.reason,
+                    hasToolCalls,
+                  });
+                }
+                break;
+              }
+            }
+          },
+
+          flush(controller) {
+            // close the items of a stream that ended early:
+            openItems.forEach(openItem => {
+              controller.enqueue(getItemEndPart(openItem));
+            });
+
+            controller.enqueue({
+              type: 'finish',
+              finishReason,
+              usage,
+              providerMetadata: {
+                ollama: {
+                  ...(responseId != null && { responseId }),
+                  ...getQueueMetadata(queueWait),
+                },
+              },
+            });
+          },
+        }),
+      ),
+      request: { body },
+      response: { headers: responseHeaders },
+      warnings,
+    };
+  }
+}
+
+// minimal version of the schemas, focussed on what is needed for the implementation
+
+const responsesUsageSchema = z.object({
+  input_tokens: z.number().nullish(),
+  output_tokens: z.number().nullish(),
+  input_tokens_details: z
+    .object({ cached_tokens: z.number().nullish() })
+    .nullish(),
+  output_tokens_details: z
+    .object({ reasoning_tokens: z.number().nullish() })
+    .nullish(),
+});
+
+const responsesErrorSchema = z.object({
+  message: z.string(),
+  code: z.union([z.string(), z.number()]).nullish(),
+});
+
+const responsesOutputItemSchema = z.object({
+  type: z.string(),
+  id: z.string().nullish(),
+
+  // message and reasoning items:
+  content: z
+    .array(z.object({ type: z.string(), text: z.string().nullish() }))
+    .nullish(),
+  summary: z
+    .array(z.object({ type: z.string(), text: z.string().nullish() }))
+    .nullish(),
+
+  // function call items:
+  call_id: z.string().nullish(),
+  name: z.string().nullish(),
+  arguments: z.string().nullish(),
+});
+
+const responsesResponseSchema = z.object({
+  id: z.string().nullish(),
+  created_at: z.number().nullish(),
+  model: z.string().nullish(),
+  output: z.array(responsesOutputItemSchema).nullish(),
+  incomplete_details: z.object({ reason: z.string().nullish() }).nullish(),
+  usage: responsesUsageSchema.nullish(),
+  error: responsesErrorSchema.nullish(),
+});
+
+// a single loose schema, since unknown event types are ignored:
+const responsesEventSchema = z.object({
+  type: z.string().nullish(),
+  response: responsesResponseSchema.nullish(),
+  item: responsesOutputItemSchema.nullish(),
+  output_index: z.number().nullish(),
+  item_id: z.string().nullish(),
+  delta: z.string().nullish(),
+
+  // `error` events carry the error directly, failed requests in `error`:
+  message: z.string().nullish(),
+  code: z.union([z.string(), z.number()]).nullish(),
+  error: z.union([z.string(), responsesErrorSchema]).nullish(),
+});
+
+type ResponsesEvent = z.infer<typeof responsesEventSchema>;
+
+function getResponsesEventError(event: ResponsesEvent) {
+  if (event.error != null) {
+    return { error: event.error };
+  }
+
+  if (event.type === 'error') {
+    return {
+      error: { message: event.message ?? 'Unknown error', code: event.code },
+    };
+  }
+
+  if (event.type === 'response.failed') {
+    return {
+      error: event.response?.error ?? { message: 'The response failed.' },
+    };
+  }
+
+  return undefined;
+}
+
+type OpenItem = { type: 'text' | 'reasoning' | 'tool'; id: string };
+
+function getItemEndPart({ type, id }: OpenItem): LanguageModelV3StreamPart {
+  switch (type) {
+    case 'text':
+      return { type: 'text-end', id };
+    case 'reasoning':
+      return { type: 'reasoning-end', id };
+    case 'tool':
+      return { type: 'tool-input-end', id };
+  }
+}
+
+function mapResponsesFinishReason({
+  incompleteReason,
+  hasToolCalls,
+}: {
+  incompleteReason: string | null | undefined;
+  hasToolCalls: boolean;
+}): LanguageModelV3FinishReason {
+  switch (incompleteReason) {
+    case undefined:
+    case null:
+      return hasToolCalls
+        ? { unified: 'tool-calls', raw: undefined }
+        : { unified: 'stop', raw: undefined };
+    case 'max_output_tokens':
+      return { unified: 'length', raw: incompleteReason };
+    case 'content_filter':
+      return { unified: 'content-filter', raw: incompleteReason };
+    default:
+      return { unified: 'other', raw: incompleteReason };
+  }
+}
+
+function convertResponsesUsage(
+  usage: z.infer<typeof responsesUsageSchema> | null | undefined,
+): LanguageModelV3Usage {
+  const inputTokens = usage?.input_tokens ?? undefined;
+  const outputTokens = usage?.output_tokens ?? undefined;
+  const cachedTokens = usage?.input_tokens_details?.cached_tokens ?? undefined;
+  const reasoningTokens =
+    usage?.output_tokens_details?.reasoning_tokens ?? undefined;
+
+  return {
+    inputTokens: {
+      total: inputTokens,
+      noCache:
+        inputTokens != null && cachedTokens != null
+          ? inputTokens - cachedTokens
+          : undefined,
+      cacheRead: cachedTokens,
+      cacheWrite: undefined,
+    },
+    outputTokens: {
+      total: outputTokens,
+      text:
+        outputTokens != null && reasoningTokens != null
+          ? outputTokens - reasoningTokens
+          : undefined,
+      reasoning: reasoningTokens,
+    },
+  };
+}
+
+function getResponsesResponseMetadata({
+  id,
+  model,
+  created_at,
+}: {
+  id?: string | null;
+  model?: string | null;
+  created_at?: number | null;
+}) {
+  return {
+    id: id ?? undefined,
+    modelId: model ?? undefined,
+    timestamp: created_at != null ? new Date(created_at * 1000) : undefined,
+  };
+}
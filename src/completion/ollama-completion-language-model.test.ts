@@ -0,0 +1,88 @@
+import { LanguageModelV3Prompt } from '@ai-sdk/provider';
+import {
+  convertReadableStreamToArray,
+  createTestServer,
+} from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+
+const TEST_PROMPT: LanguageModelV3Prompt = [
+  { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+];
+
+const provider = createOllama();
+const model = provider.completion('llama3.2');
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/api/generate': {},
+});
+
+function createChunk(response: string, extra: Record<string, unknown> = {}) {
+  return {
+    model: 'llama3.2',
+    created_at: '2024-03-22T13:43:57.000Z',
+    response,
+    done: false,
+    ...extra,
+  };
+}
+
+function prepareStreamResponse(chunks: Array<Record<string, unknown> | string>) {
+  server.urls['http://127.0.0.1:11434/api/generate'].response = {
+    type: 'stream-chunks',
+    chunks: chunks.map(chunk =>
+      typeof chunk === 'string' ? chunk : `${JSON.stringify(chunk)}\n`,
+    ),
+  };
+}
+
+describe('doStream', () => {
+  it('should stream text deltas from chunks without context', async () => {
+    prepareStreamResponse([
+      createChunk('Hello'),
+      createChunk(', '),
+      createChunk('World!'),
+      createChunk('', {
+        done: true,
+        done_reason: 'stop',
+        context: [1, 2, 3],
+        prompt_eval_count: 10,
+        eval_count: 3,
+      }),
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.filter(part => part.type === 'error')).toStrictEqual([]);
+    expect(
+      parts
+        .filter(part => part.type === 'text-delta')
+        .map(part => part.type === 'text-delta' && part.delta),
+    ).toStrictEqual(['Hello', ', ', 'World!', '']);
+
+    const finishPart = parts[parts.length - 1];
+    expect(finishPart.type === 'finish' && finishPart.finishReason).toStrictEqual({
+      unified: 'stop',
+      raw: 'stop',
+    });
+  });
+
+  it('should keep the error finish reason when a done chunk follows an error', async () => {
+    prepareStreamResponse([
+      createChunk('Hello'),
+      '{"error":"an error was encountered while running the model"}\n',
+      createChunk('', { done: true, done_reason: 'stop' }),
+    ]);
+
+    const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.some(part => part.type === 'error')).toBe(true);
+
+    const finishPart = parts[parts.length - 1];
+    expect(finishPart.type === 'finish' && finishPart.finishReason).toStrictEqual({
+      unified: 'error',
+      raw: undefined,
+    });
+  });
+});
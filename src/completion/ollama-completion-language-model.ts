@@ -8,29 +8,64 @@ import {
   LanguageModelV3StreamResult,
   LanguageModelV3Usage,
   SharedV3Headers,
+  SharedV3ProviderMetadata,
   SharedV3Warning
 } from "@ai-sdk/provider";
 import {
   combineHeaders,
   createJsonResponseHandler,
   generateId,
-  ParseResult,
+  parseProviderOptions,
   postJsonToApi
 } from "@ai-sdk/provider-utils";
 import { z } from "zod/v4";
 import { convertToOllamaCompletionPrompt } from "../adaptors/convert-to-ollama-completion-prompt";
 import { mapOllamaFinishReason } from "../adaptors/map-ollama-finish-reason";
+import { mapOllamaThink } from "../adaptors/map-ollama-think";
+import { getOllamaMetrics } from "../common/get-ollama-metrics";
 import { getResponseMetadata } from "../common/get-response-metadata";
-import { createNdjsonStreamResponseHandler } from "../common/ndjson-stream-handler";
+import {
+  createNdjsonStreamResponseHandler,
+  NdjsonParseResult,
+} from "../common/ndjson-stream-handler";
+import {
+  getQueueMetadata,
+  OllamaConcurrencyLimiter,
+  ollamaQueueOptions,
+  withConcurrencyLimit,
+  withStreamConcurrencyLimit,
+} from "../common/ollama-concurrency-limiter";
+import {
+  OllamaModelLoadTimes,
+  OllamaStreamTimeout,
+  OllamaStreamTimeoutSettings,
+  ollamaStreamTimeoutSettings,
+} from "../common/ollama-stream-timeout";
+import {
+  OllamaRetryPolicy,
+  withRetry,
+  withStreamRetry,
+} from "../common/ollama-retry";
+import {
+  convertCallSettingsToRuntimeOptions,
+  mergeRuntimeOptions,
+  ollamaRuntimeOptions,
+} from "../common/ollama-runtime-options";
+import { OllamaAutoPull, withAutoPull } from "../management/ollama-auto-pull";
 import { OllamaCompletionModelId, OllamaCompletionSettings } from "./ollama-completion-settings";
 import { ollamaFailedResponseHandler } from "./ollama-error";
 
 // Completion-specific provider options schema
 const ollamaCompletionProviderOptions = z.object({
-  think: z.boolean().optional(),
+  think: z.union([z.boolean(), z.enum(["low", "medium", "high"])]).optional(),
+  reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
   user: z.string().optional(),
   suffix: z.string().optional(),
   echo: z.boolean().optional(),
+  keepAlive: z.union([z.string(), z.number()]).optional(),
+  options: ollamaRuntimeOptions.optional(),
+  streamTimeouts: ollamaStreamTimeoutSettings.optional(),
+  queue: ollamaQueueOptions.optional(),
 });
 
 type OllamaCompletionConfig = {
@@ -38,6 +73,11 @@ type OllamaCompletionConfig = {
   url: (options: { path: string; modelId: string }) => string;
   headers: () => Record<string, string | undefined>;
   fetch?: typeof fetch;
+  autoPull?: OllamaAutoPull;
+  streamTimeouts?: OllamaStreamTimeoutSettings;
+  modelLoadTimes?: OllamaModelLoadTimes;
+  retry?: OllamaRetryPolicy;
+  concurrency?: OllamaConcurrencyLimiter;
 };
 
 export type OllamaCompletionProviderOptions = z.infer<typeof ollamaCompletionProviderOptions>;
@@ -68,7 +108,7 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
     // No URLs are supported for completion models.
   };
 
-  private getArgs({
+  private async getArgs({
     prompt,
     maxOutputTokens,
     temperature,
@@ -81,15 +121,15 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
     tools,
     toolChoice,
     seed,
+    providerOptions,
   }: LanguageModelV3CallOptions) {
     const warnings: SharedV3Warning[] = [];
 
-    if (topK != null) {
-      warnings.push({
-        type: "unsupported",
-        feature: "topK",
-      });
-    }
+    const ollamaOptions = await parseProviderOptions({
+      provider: "ollama",
+      providerOptions,
+      schema: ollamaCompletionProviderOptions,
+    });
 
     if (tools?.length) {
       warnings.push({ type: "unsupported", feature: "tools" });
@@ -106,6 +146,14 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
       });
     }
 
+    const { think, warnings: thinkWarnings } = mapOllamaThink({
+      modelId: this.modelId,
+      think: ollamaOptions?.think ?? this.settings.think,
+      reasoningEffort: ollamaOptions?.reasoningEffort,
+    });
+
+    warnings.push(...thinkWarnings);
+
     const { prompt: completionPrompt, stopSequences } =
       convertToOllamaCompletionPrompt({ prompt });
 
@@ -117,26 +165,40 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
         model: this.modelId,
 
         // Ollama-supported settings:
-        user: this.settings.user,
-        think: this.settings.think,
-
-        // standardized settings:
-        max_tokens: maxOutputTokens,
-        temperature,
-        top_p: topP,
-        frequency_penalty: frequencyPenalty,
-        presence_penalty: presencePenalty,
-        stop,
+        user: ollamaOptions?.user ?? this.settings.user,
+        think,
+        keep_alive: ollamaOptions?.keepAlive ?? this.settings.keepAlive,
+
+        // standardized settings are mapped onto the runtime options, explicit
+        // provider options take precedence:
+        options: mergeRuntimeOptions(
+          mergeRuntimeOptions(
+            this.settings.options,
+            convertCallSettingsToRuntimeOptions({
+              maxOutputTokens,
+              temperature,
+              topP,
+              topK,
+              frequencyPenalty,
+              presencePenalty,
+              stopSequences: stop,
+              seed,
+            }),
+          ),
+          ollamaOptions?.options,
+        ),
 
         // prompt:
         prompt: completionPrompt,
 
         // other settings:
-        suffix: this.settings.suffix,
-        echo: this.settings.echo,
+        suffix: ollamaOptions?.suffix ?? this.settings.suffix,
+        echo: ollamaOptions?.echo ?? this.settings.echo,
         stream: false, // always disabled for doGenerate
       },
       warnings,
+      streamTimeouts: ollamaOptions?.streamTimeouts,
+      queue: ollamaOptions?.queue,
     };
   }
 
@@ -146,6 +208,7 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
     content: Array<LanguageModelV3Content>;
     finishReason: LanguageModelV3FinishReason;
     usage: LanguageModelV3Usage;
+    providerMetadata?: SharedV3ProviderMetadata;
     warnings: Array<SharedV3Warning>;
     request?: { body?: unknown };
     response?: LanguageModelV3ResponseMetadata & {
@@ -153,30 +216,53 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
       body?: unknown;
     };
   }> {
-    const { args: body, warnings } = this.getArgs(options);
+    const { args: body, warnings, queue } = await this.getArgs(options);
+
+    const url = this.config.url({
+      path: "/generate",
+      modelId: this.modelId,
+    });
 
     const {
       responseHeaders,
       value: response,
       rawValue: rawResponse,
-    } = await postJsonToApi({
-      url: this.config.url({
-        path: "/generate",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: { ...body, stream: false },
-      failedResponseHandler: ollamaFailedResponseHandler as any,
-      successfulResponseHandler: createJsonResponseHandler(
-        baseOllamaResponseSchema,
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: () =>
+                postJsonToApi({
+                  url,
+                  headers: combineHeaders(this.config.headers(), options.headers),
+                  body: { ...body, stream: false },
+                  failedResponseHandler: ollamaFailedResponseHandler as any,
+                  successfulResponseHandler: createJsonResponseHandler(
+                    baseOllamaResponseSchema,
+                  ),
+                  abortSignal: options.abortSignal,
+                  fetch: fetch ?? this.config.fetch,
+                }),
+            }),
+        }),
     });
 
     const { prompt: rawPrompt, ...rawSettings } = body;
 
     const typedResponse = response as z.infer<typeof baseOllamaResponseSchema>;
+    this.config.modelLoadTimes?.record(typedResponse.model, typedResponse.load_duration);
 
     return {
       content: [
@@ -199,6 +285,12 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
         },
       },
       finishReason: mapOllamaFinishReason("stop"),
+      providerMetadata: {
+        ollama: {
+          ...getOllamaMetrics(typedResponse),
+          ...getQueueMetadata(queueWait),
+        },
+      },
       request: { body: JSON.stringify(body) },
       response: {
         ...getResponseMetadata(typedResponse),
@@ -212,31 +304,72 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
   async doStream(
     options: LanguageModelV3CallOptions,
   ): Promise<LanguageModelV3StreamResult & {warnings: Array<SharedV3Warning>}> {
-    const { args, warnings } = this.getArgs(options);
+    const { args, warnings, streamTimeouts, queue } =
+      await this.getArgs(options);
 
     const body = {
       ...args,
       stream: true,
     };
 
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url: this.config.url({
-        path: "/generate",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body,
-      failedResponseHandler: ollamaFailedResponseHandler as any,
-      successfulResponseHandler: createNdjsonStreamResponseHandler(
-        baseOllamaResponseSchema,
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
+    const url = this.config.url({
+      path: "/generate",
+      modelId: this.modelId,
+    });
+
+    const {
+      responseHeaders,
+      value: response,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withStreamConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withStreamRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: () => {
+                const streamTimeout = new OllamaStreamTimeout({
+                  settings: { ...this.config.streamTimeouts, ...streamTimeouts },
+                  loadTime: this.config.modelLoadTimes?.get(this.modelId),
+                  url,
+                  requestBodyValues: body,
+                  abortSignal: options.abortSignal,
+                });
+
+                return streamTimeout.run(() =>
+                  postJsonToApi({
+                    url,
+                    headers: combineHeaders(this.config.headers(), options.headers),
+                    body,
+                    failedResponseHandler: ollamaFailedResponseHandler as any,
+                    successfulResponseHandler: createNdjsonStreamResponseHandler(
+                      baseOllamaResponseSchema,
+                      streamTimeout,
+                    ),
+                    abortSignal: streamTimeout.abortSignal,
+                    fetch: fetch ?? this.config.fetch,
+                  }),
+                );
+              },
+            }),
+        }),
     });
 
     const { prompt: rawPrompt, ...rawSettings } = args;
 
-    let finishReason = "other";
+    let finishReason: LanguageModelV3FinishReason = {
+      unified: "other",
+      raw: undefined,
+    };
     let usage: LanguageModelV3Usage = {
       inputTokens: {
         total: undefined,
@@ -250,31 +383,28 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
         reasoning: undefined,
       },
     };
+    let providerMetadata: SharedV3ProviderMetadata | undefined;
     let isFirstChunk = true;
+    const { modelLoadTimes } = this.config;
     let textStarted = false;
     const textId = generateId();
 
     return {
       stream: response.pipeThrough(
         new TransformStream<
-          ParseResult<z.infer<typeof baseOllamaResponseSchema>>,
+          NdjsonParseResult<z.infer<typeof baseOllamaResponseSchema>>,
           LanguageModelV3StreamPart
         >({
           transform(chunk, controller) {
 
-            if(!chunk.success){
-              controller.enqueue({ type: "error", error: chunk.rawValue });
+            // handle error chunks, invalid lines and truncated data:
+            if (!chunk.success) {
+              finishReason = { unified: "error", raw: undefined };
+              controller.enqueue({ type: "error", error: chunk.error });
               return;
             }
-            
-            const value = chunk.value;
 
-            // handle error chunks:
-            if ("error" in value) {
-              finishReason = "error";
-              controller.enqueue({ type: "error", error: value.error });
-              return;
-            }
+            const value = chunk.value;
 
             if (isFirstChunk) {
               isFirstChunk = false;
@@ -286,7 +416,17 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
             }
 
             if (value.done) {
-              finishReason = "stop";
+              // an error earlier in the stream takes precedence:
+              if (finishReason.unified !== "error") {
+                finishReason = mapOllamaFinishReason("stop");
+              }
+              providerMetadata = {
+                ollama: {
+                  ...getOllamaMetrics(value),
+                  ...getQueueMetadata(queueWait),
+                },
+              };
+              modelLoadTimes?.record(value.model, value.load_duration);
             }
 
             if (value.response != null) {
@@ -314,8 +454,9 @@ export class OllamaCompletionLanguageModel implements LanguageModelV3 {
             }
             controller.enqueue({
               type: "finish",
-              finishReason: mapOllamaFinishReason(finishReason),
+              finishReason,
               usage,
+              providerMetadata,
             });
           },
         }),
@@ -332,7 +473,9 @@ const baseOllamaResponseSchema = z.object({
   created_at: z.string(),
   response: z.string(),
   done: z.boolean(),
-  context: z.array(z.number()),
+
+  // only sent with the final chunk:
+  context: z.array(z.number()).nullish(),
 
   eval_count: z.number().optional(),
   eval_duration: z.number().optional(),
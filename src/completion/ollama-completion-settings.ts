@@ -1,3 +1,5 @@
+import { OllamaRuntimeOptions } from '../common/ollama-runtime-options';
+
 // https://ollama.com/library
 export type OllamaCompletionModelId = (string & {});
 
@@ -5,11 +7,12 @@ export interface OllamaCompletionSettings {
   /**
    * Enable or disable the model's thinking process. When enabled, the output will separate 
    * the model's thinking from the model's output. When disabled, the model will not think 
-   * and directly output the content.
+   * and directly output the content. Models like gpt-oss accept a reasoning effort level
+   * (`"low"`, `"medium"` or `"high"`) instead.
    * 
    * Only supported by certain models like DeepSeek R1 and Qwen 3.
    */
-  think?: boolean;
+  think?: boolean | 'low' | 'medium' | 'high';
 
   /**
    * Echo back the prompt in addition to the completion.
@@ -26,4 +29,16 @@ export interface OllamaCompletionSettings {
    * monitor and detect abuse.
    */
   user?: string;
+
+  /**
+   * How long the model stays loaded in memory after the request, e.g. `"10m"`,
+   * `"24h"` or a number of seconds. `0` unloads the model immediately and a
+   * negative value keeps it loaded indefinitely.
+   */
+  keepAlive?: string | number;
+
+  /**
+   * Ollama runtime options such as `num_ctx`, `mirostat` or `num_gpu`.
+   */
+  options?: OllamaRuntimeOptions;
 }
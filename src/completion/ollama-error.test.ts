@@ -1,5 +1,16 @@
+import { APICallError } from '@ai-sdk/provider';
 import { safeParseJSON } from '@ai-sdk/provider-utils';
-import { ollamaErrorDataSchema } from './ollama-error';
+import {
+  classifyOllamaError,
+  ollamaErrorDataSchema,
+  ollamaFailedResponseHandler,
+  OllamaContextLengthExceededError,
+  OllamaModelLoadError,
+  OllamaModelNotFoundError,
+  OllamaOutOfMemoryError,
+  OllamaServerOverloadedError,
+  OllamaUnsupportedCapabilityError,
+} from './ollama-error';
 
 describe('ollamaErrorDataSchema', () => {
   it('should parse OpenRouter resource exhausted error', async () => {
@@ -30,4 +41,65 @@ describe('ollamaErrorDataSchema', () => {
       },
     });
   });
+
+  it('should parse native Ollama errors', async () => {
+    const result = await safeParseJSON({
+      text: `{"error":"model 'llama3.2' not found"}`,
+      schema: ollamaErrorDataSchema,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      value: { error: "model 'llama3.2' not found" },
+    });
+  });
+});
+
+describe('ollamaFailedResponseHandler', () => {
+  it('should use the message of native Ollama errors', async () => {
+    const { value } = await ollamaFailedResponseHandler({
+      url: 'http://127.0.0.1:11434/api/chat',
+      requestBodyValues: {},
+      response: new Response(
+        JSON.stringify({ error: 'model "llama3.2" not found, try pulling it first' }),
+        { status: 404 },
+      ),
+    });
+
+    expect(value).toBeInstanceOf(OllamaModelNotFoundError);
+    expect(value.message).toBe('model "llama3.2" not found, try pulling it first');
+    expect(value.statusCode).toBe(404);
+    expect(APICallError.isInstance(value)).toBe(true);
+  });
+});
+
+describe('classifyOllamaError', () => {
+  const createError = (message: string, statusCode = 500) =>
+    new APICallError({
+      message,
+      url: 'http://127.0.0.1:11434/api/chat',
+      requestBodyValues: {},
+      statusCode,
+    });
+
+  it.each([
+    ['model "llama3.2" not found, try pulling it first', 404, OllamaModelNotFoundError, false],
+    ['registry.ollama.ai/library/gemma:2b does not support tools', 400, OllamaUnsupportedCapabilityError, false],
+    ['the input length exceeds the context length', 400, OllamaContextLengthExceededError, false],
+    ['model requires more system memory (8.0 GiB) than is available (4.0 GiB)', 500, OllamaOutOfMemoryError, false],
+    ['server busy, please try again.  maximum pending requests exceeded', 503, OllamaServerOverloadedError, true],
+    ['llama runner process has terminated: exit status 2', 500, OllamaModelLoadError, true],
+  ])('should classify "%s"', (message, statusCode, errorClass, isRetryable) => {
+    const error = classifyOllamaError(createError(message, statusCode));
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.isRetryable).toBe(isRetryable);
+    expect(error.message).toBe(message);
+  });
+
+  it('should return unclassified errors unchanged', () => {
+    const error = createError('something went wrong');
+
+    expect(classifyOllamaError(error)).toBe(error);
+  });
 });
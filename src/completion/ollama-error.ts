@@ -3,21 +3,287 @@ import { createJsonErrorResponseHandler, type ResponseHandler } from '@ai-sdk/pr
 import { z } from 'zod/v4';
 
 export const ollamaErrorDataSchema = z.object({
-  error: z.object({
-    message: z.string(),
-
-    // The additional information below is handled loosely to support
-    // Ollama-compatible providers that have slightly different error
-    // responses:
-    type: z.string().nullish(),
-    param: z.any().nullish(),
-    code: z.union([z.string(), z.number()]).nullish(),
-  }),
+  error: z.union([
+    // native Ollama errors, e.g. `{"error":"model 'x' not found"}`:
+    z.string(),
+
+    z.object({
+      message: z.string(),
+
+      // The additional information below is handled loosely to support
+      // Ollama-compatible providers that have slightly different error
+      // responses:
+      type: z.string().nullish(),
+      param: z.any().nullish(),
+      code: z.union([z.string(), z.number()]).nullish(),
+    }),
+  ]),
 });
 
 export type OllamaErrorData = z.infer<typeof ollamaErrorDataSchema>;
 
-export const ollamaFailedResponseHandler: ResponseHandler<APICallError> = createJsonErrorResponseHandler({
+export function getOllamaErrorMessage(data: OllamaErrorData): string {
+  return typeof data.error === 'string' ? data.error : data.error.message;
+}
+
+type APICallErrorOptions = ConstructorParameters<typeof APICallError>[0];
+
+export type OllamaErrorReason =
+  | 'model-not-found'
+  | 'context-length-exceeded'
+  | 'out-of-memory'
+  | 'model-load-failed'
+  | 'unsupported-capability'
+  | 'server-overloaded'
+  | 'stream-timeout'
+  | 'queue-timeout';
+
+/**
+ * Base class of the classified Ollama API errors. Instances are also
+ * `APICallError` instances, so existing error handling keeps working.
+ */
+export abstract class OllamaAPICallError extends APICallError {
+  abstract readonly reason: OllamaErrorReason;
+
+  static isInstance(error: unknown): error is OllamaAPICallError {
+    return error instanceof OllamaAPICallError;
+  }
+}
+
+/**
+ * The requested model is not available on the Ollama server.
+ */
+export class OllamaModelNotFoundError extends OllamaAPICallError {
+  readonly reason = 'model-not-found';
+
+  constructor(options: APICallErrorOptions) {
+    super({ ...options, isRetryable: false });
+  }
+
+  static isInstance(error: unknown): error is OllamaModelNotFoundError {
+    return error instanceof OllamaModelNotFoundError;
+  }
+}
+
+/**
+ * The prompt does not fit into the model's context window.
+ */
+export class OllamaContextLengthExceededError extends OllamaAPICallError {
+  readonly reason = 'context-length-exceeded';
+
+  constructor(options: APICallErrorOptions) {
+    super({ ...options, isRetryable: false });
+  }
+
+  static isInstance(error: unknown): error is OllamaContextLengthExceededError {
+    return error instanceof OllamaContextLengthExceededError;
+  }
+}
+
+/**
+ * The server does not have enough memory to load or run the model.
+ */
+export class OllamaOutOfMemoryError extends OllamaAPICallError {
+  readonly reason = 'out-of-memory';
+
+  constructor(options: APICallErrorOptions) {
+    super({ ...options, isRetryable: false });
+  }
+
+  static isInstance(error: unknown): error is OllamaOutOfMemoryError {
+    return error instanceof OllamaOutOfMemoryError;
+  }
+}
+
+/**
+ * The model runner failed to load or terminated unexpectedly. These failures
+ * are often transient, e.g. when the runner crashed.
+ */
+export class OllamaModelLoadError extends OllamaAPICallError {
+  readonly reason = 'model-load-failed';
+
+  constructor(options: APICallErrorOptions) {
+    super({ ...options, isRetryable: true });
+  }
+
+  static isInstance(error: unknown): error is OllamaModelLoadError {
+    return error instanceof OllamaModelLoadError;
+  }
+}
+
+/**
+ * The model does not support a requested capability, e.g. tools or thinking.
+ */
+export class OllamaUnsupportedCapabilityError extends OllamaAPICallError {
+  readonly reason = 'unsupported-capability';
+
+  constructor(options: APICallErrorOptions) {
+    super({ ...options, isRetryable: false });
+  }
+
+  static isInstance(error: unknown): error is OllamaUnsupportedCapabilityError {
+    return error instanceof OllamaUnsupportedCapabilityError;
+  }
+}
+
+/**
+ * The server has too many pending requests.
+ */
+export class OllamaServerOverloadedError extends OllamaAPICallError {
+  readonly reason = 'server-overloaded';
+
+  constructor(options: APICallErrorOptions) {
+    super({ ...options, isRetryable: true });
+  }
+
+  static isInstance(error: unknown): error is OllamaServerOverloadedError {
+    return error instanceof OllamaServerOverloadedError;
+  }
+}
+
+/**
+ * A streaming response did not deliver its first chunk or its next chunk in
+ * time, e.g. because the model hangs while loading or stalls mid-generation.
+ */
+export class OllamaStreamTimeoutError extends OllamaAPICallError {
+  readonly reason = 'stream-timeout';
+  readonly timeoutType: 'first-chunk' | 'idle';
+  readonly timeout: number;
+
+  constructor({
+    timeoutType,
+    timeout,
+    ...options
+  }: Omit<APICallErrorOptions, 'message'> & {
+    timeoutType: 'first-chunk' | 'idle';
+    timeout: number;
+  }) {
+    super({
+      ...options,
+      message:
+        timeoutType === 'first-chunk'
+          ? `No response chunk was received within ${timeout}ms.`
+          : `No response chunk was received for ${timeout}ms after the previous chunk.`,
+      isRetryable: true,
+    });
+    this.timeoutType = timeoutType;
+    this.timeout = timeout;
+  }
+
+  static isInstance(error: unknown): error is OllamaStreamTimeoutError {
+    return error instanceof OllamaStreamTimeoutError;
+  }
+}
+
+/**
+ * A request waited longer than the maximum queue wait of the concurrency
+ * limiter. The request was not sent to the Ollama server.
+ */
+export class OllamaQueueTimeoutError extends OllamaAPICallError {
+  readonly reason = 'queue-timeout';
+  readonly timeout: number;
+
+  constructor({
+    timeout,
+    ...options
+  }: Omit<APICallErrorOptions, 'message'> & { timeout: number }) {
+    super({
+      ...options,
+      message: `The request waited ${timeout}ms in the queue without being sent.`,
+      isRetryable: true,
+    });
+    this.timeout = timeout;
+  }
+
+  static isInstance(error: unknown): error is OllamaQueueTimeoutError {
+    return error instanceof OllamaQueueTimeoutError;
+  }
+}
+
+// e.g. `model "llama3.2" not found, try pulling it first`
+export const MODEL_NOT_FOUND_PATTERN = /model .*not found|no such model/i;
+
+// Checked in order, the first matching class is used:
+const ERROR_CLASSIFIERS: Array<{
+  matches: (message: string, statusCode: number | undefined) => boolean;
+  errorClass: new (options: APICallErrorOptions) => OllamaAPICallError;
+}> = [
+  {
+    matches: message => MODEL_NOT_FOUND_PATTERN.test(message),
+    errorClass: OllamaModelNotFoundError,
+  },
+  {
+    // e.g. `registry.ollama.ai/library/gemma:2b does not support tools`
+    matches: message => /does not support/i.test(message),
+    errorClass: OllamaUnsupportedCapabilityError,
+  },
+  {
+    // e.g. `the input length exceeds the context length`
+    matches: message =>
+      /context length|context window|exceeds the (maximum )?context|prompt is too long/i.test(
+        message,
+      ),
+    errorClass: OllamaContextLengthExceededError,
+  },
+  {
+    // e.g. `model requires more system memory (8.0 GiB) than is available (4.0 GiB)`
+    matches: message =>
+      /out of memory|requires more (system )?memory|insufficient memory|cudaMalloc failed/i.test(
+        message,
+      ),
+    errorClass: OllamaOutOfMemoryError,
+  },
+  {
+    // e.g. `server busy, please try again.  maximum pending requests exceeded`
+    matches: (message, statusCode) =>
+      statusCode === 503 ||
+      /server busy|maximum pending requests|server overloaded/i.test(message),
+    errorClass: OllamaServerOverloadedError,
+  },
+  {
+    // e.g. `llama runner process has terminated: exit status 2`
+    matches: message =>
+      /runner process (has )?(terminated|no longer running)|(error|failed|unable to) load(ing)? model/i.test(
+        message,
+      ),
+    errorClass: OllamaModelLoadError,
+  },
+];
+
+/**
+ * Converts an `APICallError` into the matching classified Ollama error.
+ * Returns the original error when no classification matches.
+ */
+export function classifyOllamaError(error: APICallError): APICallError {
+  const message = `${error.message} ${error.responseBody ?? ''}`;
+
+  const classifier = ERROR_CLASSIFIERS.find(({ matches }) =>
+    matches(message, error.statusCode),
+  );
+
+  if (classifier == null) {
+    return error;
+  }
+
+  return new classifier.errorClass({
+    message: error.message,
+    url: error.url,
+    requestBodyValues: error.requestBodyValues,
+    statusCode: error.statusCode,
+    responseHeaders: error.responseHeaders,
+    responseBody: error.responseBody,
+    cause: error.cause,
+    data: error.data,
+  });
+}
+
+const ollamaJsonErrorResponseHandler = createJsonErrorResponseHandler({
   errorSchema: ollamaErrorDataSchema,
-  errorToMessage: data => data.error.message,
+  errorToMessage: getOllamaErrorMessage,
 });
+
+export const ollamaFailedResponseHandler: ResponseHandler<APICallError> =
+  async options => {
+    const result = await ollamaJsonErrorResponseHandler(options);
+    return { ...result, value: classifyOllamaError(result.value) };
+  };
@@ -76,6 +76,19 @@ describe('doEmbed', () => {
     expect(usage).toStrictEqual({ tokens: 20 });
   });
 
+  it('should expose timing metrics', async () => {
+    prepareJsonResponse();
+
+    const { providerMetadata } = await model.doEmbed({ values: testValues });
+
+    expect(providerMetadata?.ollama).toMatchObject({
+      totalDuration: 14143917,
+      loadDuration: 1019500,
+      promptEvalCount: 8,
+      coldLoad: false,
+    });
+  });
+
   it('should pass the model and the values', async () => {
     prepareJsonResponse();
 
@@ -124,6 +137,25 @@ describe('doEmbed', () => {
     });
   });
 
+  it('should pass runtime options', async () => {
+    prepareJsonResponse();
+
+    await provider
+      .embedding('nomic-embed-text', { options: { num_ctx: 2048 } })
+      .doEmbed({
+        values: testValues,
+        providerOptions: {
+          ollama: { options: { num_thread: 4 } },
+        },
+      });
+
+    expect(await server.calls[0].requestBodyJson).toStrictEqual({
+      model: 'nomic-embed-text',
+      input: testValues,
+      options: { num_ctx: 2048, num_thread: 4 },
+    });
+  });
+
   it('should pass headers', async () => {
     prepareJsonResponse();
 
@@ -12,17 +12,31 @@ import {
   postJsonToApi,
 } from "@ai-sdk/provider-utils";
 import { z } from "zod/v4";
+import { getOllamaMetrics } from "../common/get-ollama-metrics";
+import {
+  getQueueMetadata,
+  ollamaQueueOptions,
+  withConcurrencyLimit,
+} from "../common/ollama-concurrency-limiter";
 import { OllamaConfig } from "../common/ollama-config";
+import { withRetry } from "../common/ollama-retry";
+import {
+  mergeRuntimeOptions,
+  ollamaRuntimeOptions,
+} from "../common/ollama-runtime-options";
 import {
   OllamaEmbeddingModelId,
   OllamaEmbeddingSettings,
 } from "./ollama-embedding-settings";
 import { ollamaFailedResponseHandler } from "../completion/ollama-error";
+import { withAutoPull } from "../management/ollama-auto-pull";
 
 const ollamaEmbeddingProviderOptions = z.object({
   dimensions: z.number().optional(),
   truncate: z.boolean().optional(),
-  keepAlive: z.string().optional(),
+  keepAlive: z.union([z.string(), z.number()]).optional(),
+  options: ollamaRuntimeOptions.optional(),
+  queue: ollamaQueueOptions.optional(),
 });
 
 export type OllamaEmbeddingProviderOptions = z.infer<typeof ollamaEmbeddingProviderOptions>;
@@ -106,6 +120,10 @@ export class OllamaEmbeddingModel implements EmbeddingModelV3 {
     const dimensions = ollamaOptions?.dimensions ?? this.settings.dimensions;
     const truncate = ollamaOptions?.truncate ?? this.settings.truncate;
     const keepAlive = ollamaOptions?.keepAlive ?? this.settings.keepAlive;
+    const runtimeOptions = mergeRuntimeOptions(
+      this.settings.options,
+      ollamaOptions?.options,
+    );
 
     const body: Record<string, unknown> = {
       model: this.modelId,
@@ -115,24 +133,47 @@ export class OllamaEmbeddingModel implements EmbeddingModelV3 {
     if (dimensions !== undefined) body.dimensions = dimensions;
     if (truncate !== undefined) body.truncate = truncate;
     if (keepAlive !== undefined) body.keep_alive = keepAlive;
+    if (runtimeOptions !== undefined) body.options = runtimeOptions;
+
+    const url = this.config.url({
+      path: "/embed",
+      modelId: this.modelId,
+    });
 
     const {
       responseHeaders,
       value: response,
       rawValue,
-    } = await postJsonToApi({
-      url: this.config.url({
-        path: "/embed",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), headers),
-      body: { ...body },
-      failedResponseHandler: ollamaFailedResponseHandler as any,
-      successfulResponseHandler: createJsonResponseHandler(
-        ollamaTextEmbeddingResponseSchema,
-      ),
-      abortSignal,
-      fetch: this.config.fetch,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue: ollamaOptions?.queue,
+          abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withRetry({
+              retry: this.config.retry,
+              abortSignal,
+              request: () =>
+                postJsonToApi({
+                  url,
+                  headers: combineHeaders(this.config.headers(), headers),
+                  body: { ...body },
+                  failedResponseHandler: ollamaFailedResponseHandler as any,
+                  successfulResponseHandler: createJsonResponseHandler(
+                    ollamaTextEmbeddingResponseSchema,
+                  ),
+                  abortSignal,
+                  fetch: fetch ?? this.config.fetch,
+                }),
+            }),
+        }),
     });
 
     const typedResponse = response as z.infer<typeof ollamaTextEmbeddingResponseSchema>;
@@ -140,6 +181,12 @@ export class OllamaEmbeddingModel implements EmbeddingModelV3 {
     return {
       embeddings: typedResponse.embeddings.map((item: number[]) => item),
       usage: { tokens: typedResponse.prompt_eval_count },
+      providerMetadata: {
+        ollama: {
+          ...getOllamaMetrics(typedResponse),
+          ...getQueueMetadata(queueWait),
+        },
+      },
       response: { headers: responseHeaders, body: rawValue },
       warnings: [],
     };
@@ -154,4 +201,5 @@ const ollamaTextEmbeddingResponseSchema = z.object({
   total_duration: z.number(),
   load_duration: z.number(),
   prompt_eval_count: z.number(),
+  prompt_eval_duration: z.number().optional(),
 });
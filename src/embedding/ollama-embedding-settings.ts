@@ -1,3 +1,5 @@
+import { OllamaRuntimeOptions } from '../common/ollama-runtime-options';
+
 export type OllamaEmbeddingModelId =
   | 'text-embedding-3-small'
   | 'text-embedding-3-large'
@@ -33,7 +35,13 @@ Whether to truncate input text to fit within model's context length.
   truncate?: boolean;
 
   /**
-How long to keep the model loaded in memory (e.g., "5m" for 5 minutes).
+How long to keep the model loaded in memory (e.g., "5m" for 5 minutes, or a
+number of seconds).
+   */
+  keepAlive?: string | number;
+
+  /**
+Ollama runtime options such as `num_ctx`, `num_gpu` or `num_thread`.
    */
-  keepAlive?: string;
+  options?: OllamaRuntimeOptions;
 }
@@ -1,4 +1,47 @@
 export { createOllama, ollama } from './ollama-provider';
 export type { OllamaProvider, OllamaProviderSettings } from './ollama-provider';
+export {
+  OllamaAPICallError,
+  OllamaContextLengthExceededError,
+  OllamaModelLoadError,
+  OllamaModelNotFoundError,
+  OllamaOutOfMemoryError,
+  OllamaQueueTimeoutError,
+  OllamaServerOverloadedError,
+  OllamaStreamTimeoutError,
+  OllamaUnsupportedCapabilityError,
+} from './completion/ollama-error';
+export type { OllamaErrorReason } from './completion/ollama-error';
 export type { OllamaEmbeddingProviderOptions } from './embedding/ollama-embedding-model';
-export type { OllamaCompletionProviderOptions } from './completion/ollama-completion-language-model';
\ No newline at end of file
+export type { OllamaCompatibleResponsesProviderOptions } from './compatible/ollama-compatible-responses-language-model';
+export type { OllamaCompletionProviderOptions } from './completion/ollama-completion-language-model';
+export type { OllamaRuntimeOptions } from './common/ollama-runtime-options';
+export type { OllamaModelManager } from './management/ollama-model-manager';
+export type {
+  OllamaBlobSource,
+  OllamaManagementCallOptions,
+  OllamaPreloadOptions,
+  OllamaShowModelResult,
+  OllamaTransferOptions,
+} from './management/ollama-model-manager';
+export type { OllamaAutoPullSettings } from './management/ollama-auto-pull';
+export type { OllamaProgressStream } from './management/ollama-progress-stream';
+export type { OllamaImageDownloadSettings } from './adaptors/convert-ollama-images-to-base64';
+export type { OllamaStreamTimeoutSettings } from './common/ollama-stream-timeout';
+export type { OllamaRetrySettings } from './common/ollama-retry';
+export type {
+  OllamaConcurrencySettings,
+  OllamaQueueOptions,
+} from './common/ollama-concurrency-limiter';
+export type {
+  OllamaPoolSettings,
+  OllamaRoutingStrategy,
+} from './common/ollama-host-pool';
+export type {
+  OllamaCreateModelDefinition,
+  OllamaLocalModel,
+  OllamaModelDetails,
+  OllamaProgressEvent,
+  OllamaRunningModel,
+  OllamaShowModelResponse,
+} from './management/ollama-management-api-types';
@@ -0,0 +1,158 @@
+import { createTestServer } from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+import { OllamaProgressEvent } from './ollama-management-api-types';
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/api/chat': {},
+  'http://127.0.0.1:11434/api/embed': {},
+  'http://127.0.0.1:11434/api/pull': {},
+  'http://host-a:11434/api/embed': {},
+  'http://host-a:11434/api/pull': {},
+  'http://host-b:11434/api/embed': {},
+  'http://host-b:11434/api/pull': {},
+});
+
+const modelNotFound = {
+  type: 'error' as const,
+  status: 404,
+  body: { error: 'model "llama3.2" not found, try pulling it first' },
+};
+
+const chatResponse = {
+  type: 'json-value' as const,
+  body: {
+    model: 'llama3.2',
+    created_at: '2024-01-01T00:00:00.000Z',
+    done: true,
+    done_reason: 'stop',
+    message: { role: 'assistant', content: 'Hello!' },
+    prompt_eval_count: 10,
+    eval_count: 20,
+  },
+};
+
+const pullResponse = {
+  type: 'stream-chunks' as const,
+  chunks: ['{"status":"pulling manifest"}\n', '{"status":"success"}\n'],
+};
+
+const prompt = [
+  { role: 'user' as const, content: [{ type: 'text' as const, text: 'Hello' }] },
+];
+
+describe('autoPull', () => {
+  it('should pull a missing model and retry the chat request', async () => {
+    const progress: Array<OllamaProgressEvent> = [];
+    const provider = createOllama({
+      autoPull: { onProgress: event => progress.push(event) },
+    });
+
+    server.urls['http://127.0.0.1:11434/api/chat'].responses = [
+      modelNotFound,
+      chatResponse,
+    ];
+    server.urls['http://127.0.0.1:11434/api/pull'].response = pullResponse;
+
+    const result = await provider('llama3.2').doGenerate({ prompt });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello!' }]);
+    expect(server.urls['http://127.0.0.1:11434/api/pull'].calls).toHaveLength(1);
+    expect(
+      await server.urls['http://127.0.0.1:11434/api/pull'].calls[0]
+        .requestBodyJson,
+    ).toStrictEqual({ model: 'llama3.2', stream: true });
+    expect(progress).toStrictEqual([
+      { status: 'pulling manifest' },
+      { status: 'success' },
+    ]);
+  });
+
+  it('should pull a missing embedding model and retry', async () => {
+    const provider = createOllama({ autoPull: true });
+
+    server.urls['http://127.0.0.1:11434/api/embed'].responses = [
+      modelNotFound,
+      {
+        type: 'json-value',
+        body: {
+          model: 'nomic-embed-text',
+          embeddings: [[0.1, 0.2]],
+          total_duration: 1,
+          load_duration: 1,
+          prompt_eval_count: 2,
+        },
+      },
+    ];
+    server.urls['http://127.0.0.1:11434/api/pull'].response = pullResponse;
+
+    const { embeddings } = await provider
+      .embedding('nomic-embed-text')
+      .doEmbed({ values: ['hello'] });
+
+    expect(embeddings).toStrictEqual([[0.1, 0.2]]);
+    expect(server.urls['http://127.0.0.1:11434/api/pull'].calls).toHaveLength(1);
+  });
+
+  it('should share a single pull between concurrent requests', async () => {
+    const provider = createOllama({ autoPull: true });
+
+    server.urls['http://127.0.0.1:11434/api/chat'].responses = [
+      modelNotFound,
+      modelNotFound,
+    ];
+    server.urls['http://127.0.0.1:11434/api/chat'].response = chatResponse;
+    server.urls['http://127.0.0.1:11434/api/pull'].response = pullResponse;
+
+    const model = provider('llama3.2');
+    await Promise.all([
+      model.doGenerate({ prompt }),
+      model.doGenerate({ prompt }),
+    ]);
+
+    expect(server.urls['http://127.0.0.1:11434/api/pull'].calls).toHaveLength(1);
+    expect(server.urls['http://127.0.0.1:11434/api/chat'].calls).toHaveLength(4);
+  });
+
+  it('should pull and retry on the pool server that reported the missing model', async () => {
+    const provider = createOllama({
+      autoPull: true,
+      pool: {
+        baseURLs: ['http://host-a:11434/api', 'http://host-b:11434/api'],
+      },
+    });
+
+    server.urls['http://host-a:11434/api/embed'].responses = [
+      modelNotFound,
+      {
+        type: 'json-value',
+        body: {
+          model: 'nomic-embed-text',
+          embeddings: [[0.1, 0.2]],
+          total_duration: 1,
+          load_duration: 1,
+          prompt_eval_count: 2,
+        },
+      },
+    ];
+    server.urls['http://host-a:11434/api/pull'].response = pullResponse;
+
+    const { embeddings } = await provider
+      .embedding('nomic-embed-text')
+      .doEmbed({ values: ['hello'] });
+
+    expect(embeddings).toStrictEqual([[0.1, 0.2]]);
+    expect(server.urls['http://host-a:11434/api/embed'].calls).toHaveLength(2);
+    expect(server.urls['http://host-a:11434/api/pull'].calls).toHaveLength(1);
+    expect(server.urls['http://host-b:11434/api/embed'].calls).toHaveLength(0);
+    expect(server.urls['http://host-b:11434/api/pull'].calls).toHaveLength(0);
+  });
+
+  it('should not pull when disabled', async () => {
+    const provider = createOllama();
+
+    server.urls['http://127.0.0.1:11434/api/chat'].responses = [modelNotFound];
+
+    await expect(provider('llama3.2').doGenerate({ prompt })).rejects.toThrow();
+    expect(server.urls['http://127.0.0.1:11434/api/pull'].calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { FetchFunction } from "@ai-sdk/provider-utils";
+import { OllamaHostPool } from "../common/ollama-host-pool";
+import { OllamaModelNotFoundError } from "../completion/ollama-error";
+import { OllamaProgressEvent } from "./ollama-management-api-types";
+import { OllamaModelManager } from "./ollama-model-manager";
+
+export type OllamaAutoPullSettings =
+  | boolean
+  | {
+      /**
+Called for every progress event while a missing model is being pulled.
+       */
+      onProgress?: (event: OllamaProgressEvent, modelId: string) => void;
+    };
+
+/**
+ * Pulls models that are missing on the Ollama server and retries the original
+ * request once. Concurrent requests for the same model share a single pull.
+ *
+ * With a pool, the request runs with a fetch function that is scoped to one
+ * server, so that the pull and the retry go to the server that reported the
+ * missing model.
+ */
+export class OllamaAutoPull {
+  private readonly pendingPulls = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly options: {
+      models: OllamaModelManager;
+      onProgress?: (event: OllamaProgressEvent, modelId: string) => void;
+      pool?: OllamaHostPool;
+    },
+  ) {}
+
+  async run<T>(
+    modelId: string,
+    request: (fetch: FetchFunction | undefined) => PromiseLike<T>,
+  ): Promise<T> {
+    const scope = this.options.pool?.createScope();
+
+    try {
+      return await request(scope?.fetch);
+    } catch (error) {
+      if (!isModelNotFoundError(error)) {
+        throw error;
+      }
+
+      await this.pull(modelId, scope?.baseURL);
+
+      return await request(scope?.fetch);
+    }
+  }
+
+  pull(modelId: string, host?: string): Promise<void> {
+    // pulls are shared per server of a pool:
+    const key = host != null ? `${host} ${modelId}` : modelId;
+    let pendingPull = this.pendingPulls.get(key);
+
+    if (pendingPull == null) {
+      pendingPull = this.executePull(modelId, host).finally(() => {
+        this.pendingPulls.delete(key);
+      });
+      this.pendingPulls.set(key, pendingPull);
+    }
+
+    return pendingPull;
+  }
+
+  private async executePull(modelId: string, host?: string): Promise<void> {
+    for await (const event of this.options.models.pull(modelId, { host })) {
+      this.options.onProgress?.(event, modelId);
+    }
+  }
+}
+
+export function withAutoPull<T>({
+  autoPull,
+  modelId,
+  request,
+}: {
+  autoPull: OllamaAutoPull | undefined;
+  modelId: string;
+  // called with the fetch function to use instead of the configured one:
+  request: (fetch: FetchFunction | undefined) => PromiseLike<T>;
+}): Promise<T> {
+  return autoPull != null
+    ? autoPull.run(modelId, request)
+    : Promise.resolve(request(undefined));
+}
+
+// e.g. `{"error":"model \"llama3.2\" not found, try pulling it first"}`
+function isModelNotFoundError(error: unknown): boolean {
+  return OllamaModelNotFoundError.isInstance(error) && error.statusCode === 404;
+}
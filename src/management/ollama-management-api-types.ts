@@ -0,0 +1,132 @@
+import { z } from "zod/v4";
+
+// https://github.com/ollama/ollama/blob/main/docs/api.md
+
+export const ollamaModelDetailsSchema = z.object({
+  parent_model: z.string().nullish(),
+  format: z.string().nullish(),
+  family: z.string().nullish(),
+  families: z.array(z.string()).nullish(),
+  parameter_size: z.string().nullish(),
+  quantization_level: z.string().nullish(),
+});
+
+export const ollamaListModelsResponseSchema = z.object({
+  models: z.array(
+    z.object({
+      name: z.string(),
+      model: z.string(),
+      modified_at: z.string(),
+      size: z.number(),
+      digest: z.string(),
+      details: ollamaModelDetailsSchema.nullish(),
+    }),
+  ),
+});
+
+export const ollamaShowModelResponseSchema = z.object({
+  license: z.string().nullish(),
+  modelfile: z.string().nullish(),
+  parameters: z.string().nullish(),
+  template: z.string().nullish(),
+  system: z.string().nullish(),
+  details: ollamaModelDetailsSchema.nullish(),
+  model_info: z.record(z.string(), z.unknown()).nullish(),
+  capabilities: z.array(z.string()).nullish(),
+  modified_at: z.string().nullish(),
+});
+
+export const ollamaRunningModelsResponseSchema = z.object({
+  models: z.array(
+    z.object({
+      name: z.string(),
+      model: z.string(),
+      size: z.number(),
+      digest: z.string(),
+      details: ollamaModelDetailsSchema.nullish(),
+      expires_at: z.string(),
+      size_vram: z.number(),
+      context_length: z.number().nullish(),
+    }),
+  ),
+});
+
+export const ollamaLoadResponseSchema = z.object({
+  model: z.string(),
+  done: z.boolean(),
+  done_reason: z.string().nullish(),
+});
+
+export const ollamaVersionResponseSchema = z.object({
+  version: z.string(),
+});
+
+export type OllamaModelDetails = z.infer<typeof ollamaModelDetailsSchema>;
+
+export type OllamaLocalModel = z.infer<
+  typeof ollamaListModelsResponseSchema
+>["models"][number];
+
+export type OllamaShowModelResponse = z.infer<
+  typeof ollamaShowModelResponseSchema
+>;
+
+export type OllamaRunningModel = z.infer<
+  typeof ollamaRunningModelsResponseSchema
+>["models"][number];
+
+export const ollamaProgressEventSchema = z.object({
+  status: z.string(),
+  digest: z.string().optional(),
+  total: z.number().optional(),
+  completed: z.number().optional(),
+});
+
+export type OllamaProgressEvent = z.infer<typeof ollamaProgressEventSchema>;
+
+export interface OllamaCreateModelDefinition {
+  /**
+Name of an existing model to create the new model from.
+   */
+  from?: string;
+
+  /**
+Files to create the model from, mapping file names to blob digests (`sha256:<hex>`).
+   */
+  files?: Record<string, string>;
+
+  /**
+LoRA adapters to apply, mapping file names to blob digests (`sha256:<hex>`).
+   */
+  adapters?: Record<string, string>;
+
+  /**
+Prompt template for the model.
+   */
+  template?: string;
+
+  /**
+License or licenses for the model.
+   */
+  license?: string | Array<string>;
+
+  /**
+System prompt for the model.
+   */
+  system?: string;
+
+  /**
+Default runtime parameters for the model, e.g. `{ temperature: 0.2, num_ctx: 8192 }`.
+   */
+  parameters?: Record<string, unknown>;
+
+  /**
+Messages used to create a conversation history.
+   */
+  messages?: Array<{ role: string; content: string }>;
+
+  /**
+Quantize a non-quantized (e.g. float16) model, e.g. `q4_K_M`.
+   */
+  quantize?: string;
+}
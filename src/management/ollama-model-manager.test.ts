@@ -0,0 +1,474 @@
+import { createTestServer } from '../test-utils/test-server';
+import { createOllama } from '../ollama-provider';
+
+const provider = createOllama({
+  headers: { 'Custom-Provider-Header': 'provider-header-value' },
+});
+
+// sha256 of the bytes of 'hello'
+const helloDigest =
+  'sha256:2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+const helloBlobUrl = `http://127.0.0.1:11434/api/blobs/${helloDigest}`;
+
+const server = createTestServer({
+  'http://127.0.0.1:11434/api/tags': {},
+  'http://127.0.0.1:11434/api/show': {},
+  'http://127.0.0.1:11434/api/ps': {},
+  'http://127.0.0.1:11434/api/version': {},
+  'http://127.0.0.1:11434/api/pull': {},
+  'http://127.0.0.1:11434/api/push': {},
+  'http://127.0.0.1:11434/api/create': {},
+  'http://127.0.0.1:11434/api/copy': {},
+  'http://127.0.0.1:11434/api/delete': {},
+  'http://127.0.0.1:11434/api/generate': {},
+  [helloBlobUrl]: {},
+});
+
+const modelDetails = {
+  parent_model: '',
+  format: 'gguf',
+  family: 'llama',
+  families: ['llama'],
+  parameter_size: '3.2B',
+  quantization_level: 'Q4_K_M',
+};
+
+describe('OllamaModelManager', () => {
+  describe('list', () => {
+    it('should list local models', async () => {
+      server.urls['http://127.0.0.1:11434/api/tags'].response = {
+        type: 'json-value',
+        body: {
+          models: [
+            {
+              name: 'llama3.2:latest',
+              model: 'llama3.2:latest',
+              modified_at: '2025-01-01T00:00:00.000Z',
+              size: 2019393189,
+              digest: 'a80c4f17acd5',
+              details: modelDetails,
+            },
+          ],
+        },
+      };
+
+      const models = await provider.models.list();
+
+      expect(models).toStrictEqual([
+        {
+          name: 'llama3.2:latest',
+          model: 'llama3.2:latest',
+          modified_at: '2025-01-01T00:00:00.000Z',
+          size: 2019393189,
+          digest: 'a80c4f17acd5',
+          details: modelDetails,
+        },
+      ]);
+      expect(server.calls[0].requestMethod).toBe('GET');
+      expect(server.calls[0].requestHeaders).toMatchObject({
+        'custom-provider-header': 'provider-header-value',
+      });
+    });
+  });
+
+  describe('show', () => {
+    it('should show model information with context length', async () => {
+      server.urls['http://127.0.0.1:11434/api/show'].response = {
+        type: 'json-value',
+        body: {
+          parameters: 'stop "<|eot_id|>"',
+          template: '{{ .Prompt }}',
+          details: modelDetails,
+          model_info: {
+            'general.architecture': 'llama',
+            'llama.context_length': 131072,
+          },
+          capabilities: ['completion', 'tools'],
+        },
+      };
+
+      const info = await provider.models.show('llama3.2', { verbose: true });
+
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        model: 'llama3.2',
+        verbose: true,
+      });
+      expect(info.capabilities).toStrictEqual(['completion', 'tools']);
+      expect(info.template).toBe('{{ .Prompt }}');
+      expect(info.contextLength).toBe(131072);
+    });
+
+    it('should retry transient failures when a retry policy is configured', async () => {
+      server.urls['http://127.0.0.1:11434/api/show'].responses = [
+        { type: 'error', status: 503, body: { error: 'server busy' } },
+      ];
+      server.urls['http://127.0.0.1:11434/api/show'].response = {
+        type: 'json-value',
+        body: { modelfile: '', parameters: '', template: '', details: modelDetails },
+      };
+
+      const retryingProvider = createOllama({ retry: { initialDelay: 1 } });
+      const info = await retryingProvider.models.show('llama3.2');
+
+      expect(info.details).toStrictEqual(modelDetails);
+      expect(server.urls['http://127.0.0.1:11434/api/show'].calls).toHaveLength(2);
+    });
+
+    it('should surface API errors', async () => {
+      server.urls['http://127.0.0.1:11434/api/show'].response = {
+        type: 'error',
+        status: 404,
+        body: { error: { message: "model 'missing' not found" } },
+      };
+
+      await expect(provider.models.show('missing')).rejects.toThrow(
+        "model 'missing' not found",
+      );
+    });
+  });
+
+  describe('listRunning', () => {
+    it('should list running models', async () => {
+      server.urls['http://127.0.0.1:11434/api/ps'].response = {
+        type: 'json-value',
+        body: {
+          models: [
+            {
+              name: 'llama3.2:latest',
+              model: 'llama3.2:latest',
+              size: 5137025024,
+              digest: 'a80c4f17acd5',
+              details: modelDetails,
+              expires_at: '2025-01-01T00:05:00.000Z',
+              size_vram: 5137025024,
+            },
+          ],
+        },
+      };
+
+      const models = await provider.models.listRunning();
+
+      expect(models).toHaveLength(1);
+      expect(models[0]).toMatchObject({
+        name: 'llama3.2:latest',
+        size_vram: 5137025024,
+        expires_at: '2025-01-01T00:05:00.000Z',
+      });
+    });
+  });
+
+  describe('version', () => {
+    it('should return the server version', async () => {
+      server.urls['http://127.0.0.1:11434/api/version'].response = {
+        type: 'json-value',
+        body: { version: '0.12.3' },
+      };
+
+      expect(await provider.models.version()).toBe('0.12.3');
+    });
+  });
+
+  describe('pull', () => {
+    it('should stream progress events', async () => {
+      server.urls['http://127.0.0.1:11434/api/pull'].response = {
+        type: 'stream-chunks',
+        chunks: [
+          '{"status":"pulling manifest"}\n',
+          '{"status":"pulling a80c4f17acd5","digest":"sha256:a80c","total":100,"completed":40}\n',
+          '{"status":"pulling a80c4f17acd5","digest":"sha256:a80c","total":100,"completed":100}\n',
+          '{"status":"success"}\n',
+        ],
+      };
+
+      const events = [];
+      for await (const event of provider.models.pull('llama3.2')) {
+        events.push(event);
+      }
+
+      expect(events).toStrictEqual([
+        { status: 'pulling manifest' },
+        {
+          status: 'pulling a80c4f17acd5',
+          digest: 'sha256:a80c',
+          total: 100,
+          completed: 40,
+        },
+        {
+          status: 'pulling a80c4f17acd5',
+          digest: 'sha256:a80c',
+          total: 100,
+          completed: 100,
+        },
+        { status: 'success' },
+      ]);
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        model: 'llama3.2',
+        stream: true,
+      });
+    });
+
+    it('should resolve with the final success event when awaited', async () => {
+      server.urls['http://127.0.0.1:11434/api/pull'].response = {
+        type: 'stream-chunks',
+        chunks: ['{"status":"pulling manifest"}\n', '{"status":"success"}\n'],
+      };
+
+      await expect(provider.models.pull('llama3.2')).resolves.toStrictEqual({
+        status: 'success',
+      });
+    });
+
+    it('should reject when the server reports an error', async () => {
+      server.urls['http://127.0.0.1:11434/api/pull'].response = {
+        type: 'stream-chunks',
+        chunks: [
+          '{"status":"pulling manifest"}\n',
+          '{"error":"pull model manifest: file does not exist"}\n',
+        ],
+      };
+
+      await expect(provider.models.pull('missing')).rejects.toThrow(
+        'pull model manifest: file does not exist',
+      );
+    });
+
+    it('should reject when the stream ends without success', async () => {
+      server.urls['http://127.0.0.1:11434/api/pull'].response = {
+        type: 'stream-chunks',
+        chunks: ['{"status":"pulling manifest"}\n'],
+      };
+
+      await expect(provider.models.pull('llama3.2')).rejects.toThrow(
+        'ended before reporting success',
+      );
+    });
+
+    it('should reject when aborted', async () => {
+      server.urls['http://127.0.0.1:11434/api/pull'].response = {
+        type: 'stream-chunks',
+        chunks: ['{"status":"success"}\n'],
+      };
+
+      const abortController = new AbortController();
+      abortController.abort();
+
+      await expect(
+        provider.models.pull('llama3.2', {
+          abortSignal: abortController.signal,
+        }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('push', () => {
+    it('should push a model with the insecure flag', async () => {
+      server.urls['http://127.0.0.1:11434/api/push'].response = {
+        type: 'stream-chunks',
+        chunks: [
+          '{"status":"retrieving manifest"}\n',
+          '{"status":"pushing manifest"}\n',
+          '{"status":"success"}\n',
+        ],
+      };
+
+      await provider.models.push('me/llama3.2', { insecure: true });
+
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        model: 'me/llama3.2',
+        insecure: true,
+        stream: true,
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should create a model and stream progress', async () => {
+      server.urls['http://127.0.0.1:11434/api/create'].response = {
+        type: 'stream-chunks',
+        chunks: [
+          '{"status":"reading model metadata"}\n',
+          '{"status":"writing manifest"}\n',
+          '{"status":"success"}\n',
+        ],
+      };
+
+      const events = [];
+      for await (const event of provider.models.create('mario', {
+        from: 'llama3.2',
+        system: 'You are Mario from Super Mario Bros.',
+        parameters: { temperature: 0.2 },
+      })) {
+        events.push(event.status);
+      }
+
+      expect(events).toStrictEqual([
+        'reading model metadata',
+        'writing manifest',
+        'success',
+      ]);
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        model: 'mario',
+        from: 'llama3.2',
+        system: 'You are Mario from Super Mario Bros.',
+        parameters: { temperature: 0.2 },
+        stream: true,
+      });
+    });
+  });
+
+  describe('copy', () => {
+    it('should copy a model', async () => {
+      server.urls['http://127.0.0.1:11434/api/copy'].response = {
+        type: 'json-value',
+      };
+
+      await provider.models.copy('llama3.2', 'llama3.2-backup');
+
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        source: 'llama3.2',
+        destination: 'llama3.2-backup',
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should send a DELETE request', async () => {
+      server.urls['http://127.0.0.1:11434/api/delete'].response = {
+        type: 'json-value',
+      };
+
+      await provider.models.delete('llama3.2-backup');
+
+      expect(server.calls[0].requestMethod).toBe('DELETE');
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        model: 'llama3.2-backup',
+      });
+    });
+
+    it('should surface API errors', async () => {
+      server.urls['http://127.0.0.1:11434/api/delete'].response = {
+        type: 'error',
+        status: 404,
+        body: { error: { message: "model 'missing' not found" } },
+      };
+
+      await expect(provider.models.delete('missing')).rejects.toThrow(
+        "model 'missing' not found",
+      );
+    });
+  });
+
+  describe('uploadBlob', () => {
+    const data = new TextEncoder().encode('hello');
+
+    it('should upload a missing blob under its sha256 digest', async () => {
+      server.urls[helloBlobUrl].responses = [
+        { type: 'error', status: 404, body: {} },
+        { type: 'json-value', status: 201 },
+      ];
+
+      const digest = await provider.models.uploadBlob(data);
+
+      expect(digest).toBe(helloDigest);
+      expect(server.calls.map(call => call.requestMethod)).toStrictEqual([
+        'HEAD',
+        'POST',
+      ]);
+      expect(server.calls[1].requestBody).toBe('hello');
+    });
+
+    it('should hash and upload a stream source chunk by chunk', async () => {
+      server.urls[helloBlobUrl].responses = [
+        { type: 'error', status: 404, body: {} },
+        { type: 'json-value', status: 201 },
+      ];
+      const openStream = vi.fn(
+        () =>
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('hel'));
+              controller.enqueue(new TextEncoder().encode('lo'));
+              controller.close();
+            },
+          }),
+      );
+
+      const digest = await provider.models.uploadBlob(openStream);
+
+      expect(digest).toBe(helloDigest);
+      expect(openStream).toHaveBeenCalledTimes(2);
+      expect(server.calls[1].requestHeaders['content-type']).toBe(
+        'application/octet-stream',
+      );
+      expect(server.calls[1].requestBody).toBe('hello');
+    });
+
+    it('should hash and upload an async iterable source', async () => {
+      server.urls[helloBlobUrl].responses = [
+        { type: 'error', status: 404, body: {} },
+        { type: 'json-value', status: 201 },
+      ];
+
+      const digest = await provider.models.uploadBlob(async function* () {
+        yield new TextEncoder().encode('he');
+        yield new TextEncoder().encode('llo');
+      });
+
+      expect(digest).toBe(helloDigest);
+      expect(server.calls[1].requestBody).toBe('hello');
+    });
+
+    it('should skip the upload when the blob exists', async () => {
+      server.urls[helloBlobUrl].responses = [{ type: 'json-value' }];
+
+      expect(await provider.models.uploadBlob(data)).toBe(helloDigest);
+      expect(server.calls.map(call => call.requestMethod)).toStrictEqual([
+        'HEAD',
+      ]);
+    });
+  });
+
+  describe('preload and unload', () => {
+    it('should load a model with the given keep_alive', async () => {
+      server.urls['http://127.0.0.1:11434/api/generate'].response = {
+        type: 'json-value',
+        body: {
+          model: 'llama3.2',
+          created_at: '2025-01-01T00:00:00.000Z',
+          response: '',
+          done: true,
+          done_reason: 'load',
+        },
+      };
+
+      await provider.preload('llama3.2', { keepAlive: '1h' });
+
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        model: 'llama3.2',
+        keep_alive: '1h',
+        stream: false,
+      });
+    });
+
+    it('should unload a model with a keep_alive of 0', async () => {
+      server.urls['http://127.0.0.1:11434/api/generate'].response = {
+        type: 'json-value',
+        body: {
+          model: 'llama3.2',
+          created_at: '2025-01-01T00:00:00.000Z',
+          response: '',
+          done: true,
+          done_reason: 'unload',
+        },
+      };
+
+      await provider.unload('llama3.2');
+
+      expect(await server.calls[0].requestBodyJson).toStrictEqual({
+        model: 'llama3.2',
+        keep_alive: 0,
+        stream: false,
+      });
+    });
+  });
+});
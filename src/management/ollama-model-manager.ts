@@ -0,0 +1,616 @@
+import { APICallError } from "@ai-sdk/provider";
+import {
+  combineHeaders,
+  createJsonResponseHandler,
+  extractResponseHeaders,
+  FetchFunction,
+  getFromApi,
+  postJsonToApi,
+  postToApi,
+  ResponseHandler,
+} from "@ai-sdk/provider-utils";
+import { createNdjsonStreamResponseHandler } from "../common/ndjson-stream-handler";
+import { OllamaHostPool } from "../common/ollama-host-pool";
+import {
+  OllamaRetryPolicy,
+  withRetry,
+  withStreamRetry,
+} from "../common/ollama-retry";
+import { ollamaFailedResponseHandler } from "../completion/ollama-error";
+import {
+  OllamaCreateModelDefinition,
+  OllamaLocalModel,
+  OllamaRunningModel,
+  OllamaShowModelResponse,
+  ollamaListModelsResponseSchema,
+  ollamaLoadResponseSchema,
+  ollamaProgressEventSchema,
+  ollamaRunningModelsResponseSchema,
+  ollamaShowModelResponseSchema,
+  ollamaVersionResponseSchema,
+} from "./ollama-management-api-types";
+import { OllamaProgressStream } from "./ollama-progress-stream";
+import { Sha256 } from "./sha256";
+
+export type OllamaModelManagerConfig = {
+  provider: string;
+  url: (options: { path: string; modelId?: string }) => string;
+  headers: () => Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  retry?: OllamaRetryPolicy;
+  pool?: OllamaHostPool;
+};
+
+/**
+ * Content of a blob upload. Large files can be passed as a function that
+ * opens a stream, e.g. `() => createReadStream(path)`. The stream is opened
+ * once to compute the digest and once for every upload attempt.
+ */
+export type OllamaBlobSource =
+  | Uint8Array
+  | (() => ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>);
+
+export interface OllamaManagementCallOptions {
+  /**
+Additional HTTP headers to be sent with the request.
+   */
+  headers?: Record<string, string | undefined>;
+
+  /**
+Abort signal for cancelling the request.
+   */
+  abortSignal?: AbortSignal;
+
+  /**
+Base URL of the pool server to send the request to, e.g. `http://gpu-1:11434/api`.
+Without it, `list`, `listRunning`, `preload`, `unload` and `uploadBlob` run on
+every server of the pool, and the other calls are routed to a single server.
+   */
+  host?: string;
+}
+
+export interface OllamaTransferOptions extends OllamaManagementCallOptions {
+  /**
+Allow insecure connections to the registry. Only use this during development.
+   */
+  insecure?: boolean;
+}
+
+export interface OllamaPreloadOptions extends OllamaManagementCallOptions {
+  /**
+How long the model stays loaded, e.g. `"10m"` or a number of seconds. A negative
+value keeps it loaded indefinitely. Defaults to the server's keep-alive setting.
+   */
+  keepAlive?: string | number;
+}
+
+export type OllamaShowModelResult = OllamaShowModelResponse & {
+  /**
+Context window size reported by the model architecture, if available.
+   */
+  contextLength: number | undefined;
+};
+
+/**
+ * Client for the Ollama model management endpoints (`/api/tags`, `/api/show`,
+ * `/api/ps`, `/api/version`, `/api/pull`, `/api/push`, `/api/create`,
+ * `/api/copy`, `/api/delete` and `/api/blobs`). Models are loaded and
+ * unloaded through empty `/api/generate` requests.
+ *
+ * With a pool of servers, calls that act on every server's own state fan out
+ * to all servers unless a `host` is given. Their results are combined.
+ */
+export class OllamaModelManager {
+  constructor(private readonly config: OllamaModelManagerConfig) {}
+
+  /**
+   * Lists the models that are available locally.
+   */
+  async list(
+    options: OllamaManagementCallOptions = {},
+  ): Promise<Array<OllamaLocalModel>> {
+    const models = await this.forEachHost(options, async hostOptions => {
+      const { value } = await withRetry({
+        retry: this.config.retry,
+        abortSignal: hostOptions.abortSignal,
+        request: () =>
+          getFromApi({
+            url: this.config.url({ path: "/tags" }),
+            headers: combineHeaders(this.config.headers(), hostOptions.headers),
+            failedResponseHandler: ollamaFailedResponseHandler,
+            successfulResponseHandler: createJsonResponseHandler(
+              ollamaListModelsResponseSchema,
+            ),
+            abortSignal: hostOptions.abortSignal,
+            fetch: this.getFetch(hostOptions),
+          }),
+      });
+
+      return value.models;
+    });
+
+    return ([] as Array<OllamaLocalModel>).concat(...models);
+  }
+
+  /**
+   * Shows information about a model, including its parameters, template,
+   * capabilities and context length.
+   */
+  async show(
+    modelId: string,
+    options: OllamaManagementCallOptions & { verbose?: boolean } = {},
+  ): Promise<OllamaShowModelResult> {
+    const { value } = await withRetry({
+      retry: this.config.retry,
+      abortSignal: options.abortSignal,
+      request: () =>
+        postJsonToApi({
+          url: this.config.url({ path: "/show", modelId }),
+          headers: combineHeaders(this.config.headers(), options.headers),
+          body: {
+            model: modelId,
+            ...(options.verbose != null && { verbose: options.verbose }),
+          },
+          failedResponseHandler: ollamaFailedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            ollamaShowModelResponseSchema,
+          ),
+          abortSignal: options.abortSignal,
+          fetch: this.getFetch(options),
+        }),
+    });
+
+    return {
+      ...value,
+      contextLength: extractContextLength(value.model_info),
+    };
+  }
+
+  /**
+   * Lists the models that are currently loaded into memory.
+   */
+  async listRunning(
+    options: OllamaManagementCallOptions = {},
+  ): Promise<Array<OllamaRunningModel>> {
+    const models = await this.forEachHost(options, async hostOptions => {
+      const { value } = await withRetry({
+        retry: this.config.retry,
+        abortSignal: hostOptions.abortSignal,
+        request: () =>
+          getFromApi({
+            url: this.config.url({ path: "/ps" }),
+            headers: combineHeaders(this.config.headers(), hostOptions.headers),
+            failedResponseHandler: ollamaFailedResponseHandler,
+            successfulResponseHandler: createJsonResponseHandler(
+              ollamaRunningModelsResponseSchema,
+            ),
+            abortSignal: hostOptions.abortSignal,
+            fetch: this.getFetch(hostOptions),
+          }),
+      });
+
+      return value.models;
+    });
+
+    return ([] as Array<OllamaRunningModel>).concat(...models);
+  }
+
+  /**
+   * Retrieves the version of the Ollama server.
+   */
+  async version(options: OllamaManagementCallOptions = {}): Promise<string> {
+    const { value } = await withRetry({
+      retry: this.config.retry,
+      abortSignal: options.abortSignal,
+      request: () =>
+        getFromApi({
+          url: this.config.url({ path: "/version" }),
+          headers: combineHeaders(this.config.headers(), options.headers),
+          failedResponseHandler: ollamaFailedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            ollamaVersionResponseSchema,
+          ),
+          abortSignal: options.abortSignal,
+          fetch: this.getFetch(options),
+        }),
+    });
+
+    return value.version;
+  }
+
+  /**
+   * Loads a model into memory by sending an empty generate request.
+   */
+  async preload(
+    modelId: string,
+    options: OllamaPreloadOptions = {},
+  ): Promise<void> {
+    await this.forEachHost(options, hostOptions =>
+      this.sendEmptyGenerateRequest({
+        modelId,
+        keepAlive: options.keepAlive,
+        options: hostOptions,
+      }),
+    );
+  }
+
+  /**
+   * Unloads a model from memory by sending an empty generate request with a
+   * `keep_alive` of 0.
+   */
+  async unload(
+    modelId: string,
+    options: OllamaManagementCallOptions = {},
+  ): Promise<void> {
+    await this.forEachHost(options, hostOptions =>
+      this.sendEmptyGenerateRequest({
+        modelId,
+        keepAlive: 0,
+        options: hostOptions,
+      }),
+    );
+  }
+
+  /**
+   * Downloads a model from the registry. Iterate the result to observe the
+   * download progress, or await it to wait for the final `success` status.
+   */
+  pull(modelId: string, options: OllamaTransferOptions = {}): OllamaProgressStream {
+    return this.streamProgress({
+      path: "/pull",
+      modelId,
+      body: {
+        model: modelId,
+        ...(options.insecure != null && { insecure: options.insecure }),
+      },
+      options,
+    });
+  }
+
+  /**
+   * Uploads a model to the registry. Iterate the result to observe the
+   * upload progress, or await it to wait for the final `success` status.
+   */
+  push(modelId: string, options: OllamaTransferOptions = {}): OllamaProgressStream {
+    return this.streamProgress({
+      path: "/push",
+      modelId,
+      body: {
+        model: modelId,
+        ...(options.insecure != null && { insecure: options.insecure }),
+      },
+      options,
+    });
+  }
+
+  /**
+   * Creates a model from another model, a set of uploaded blobs, or both.
+   * Iterate the result to observe the creation progress, or await it to wait
+   * for the final `success` status.
+   */
+  create(
+    modelId: string,
+    definition: OllamaCreateModelDefinition,
+    options: OllamaManagementCallOptions = {},
+  ): OllamaProgressStream {
+    return this.streamProgress({
+      path: "/create",
+      modelId,
+      body: { model: modelId, ...definition },
+      options,
+    });
+  }
+
+  /**
+   * Copies a model, creating `destination` as another name for `source`.
+   */
+  async copy(
+    source: string,
+    destination: string,
+    options: OllamaManagementCallOptions = {},
+  ): Promise<void> {
+    await withRetry({
+      retry: this.config.retry,
+      abortSignal: options.abortSignal,
+      request: () =>
+        postJsonToApi({
+          url: this.config.url({ path: "/copy", modelId: source }),
+          headers: combineHeaders(this.config.headers(), options.headers),
+          body: { source, destination },
+          failedResponseHandler: ollamaFailedResponseHandler,
+          successfulResponseHandler: emptyResponseHandler,
+          abortSignal: options.abortSignal,
+          fetch: this.getFetch(options),
+        }),
+    });
+  }
+
+  /**
+   * Deletes a model and its data.
+   */
+  async delete(
+    modelId: string,
+    options: OllamaManagementCallOptions = {},
+  ): Promise<void> {
+    await withRetry({
+      retry: this.config.retry,
+      abortSignal: options.abortSignal,
+      request: () =>
+        postJsonToApi({
+          url: this.config.url({ path: "/delete", modelId }),
+          headers: combineHeaders(this.config.headers(), options.headers),
+          body: { model: modelId },
+          failedResponseHandler: ollamaFailedResponseHandler,
+          successfulResponseHandler: emptyResponseHandler,
+          abortSignal: options.abortSignal,
+          fetch: this.withMethod("DELETE", options),
+        }),
+    });
+  }
+
+  /**
+   * Checks whether a blob with the given digest (`sha256:<hex>`) exists on the server.
+   */
+  async hasBlob(
+    digest: string,
+    options: OllamaManagementCallOptions = {},
+  ): Promise<boolean> {
+    try {
+      await withRetry({
+        retry: this.config.retry,
+        abortSignal: options.abortSignal,
+        request: () =>
+          getFromApi({
+            url: this.config.url({ path: `/blobs/${digest}` }),
+            headers: combineHeaders(this.config.headers(), options.headers),
+            failedResponseHandler: ollamaFailedResponseHandler,
+            successfulResponseHandler: emptyResponseHandler,
+            abortSignal: options.abortSignal,
+            fetch: this.withMethod("HEAD", options),
+          }),
+      });
+      return true;
+    } catch (error) {
+      if (APICallError.isInstance(error) && error.statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Uploads a file (e.g. a GGUF model or a safetensors adapter) as a blob.
+   *
+   * The SHA-256 digest is computed locally and the upload is skipped when the
+   * server already has the blob. Streamed sources are hashed and uploaded
+   * chunk by chunk without being held in memory. Returns the digest, which
+   * can be referenced in the `files` or `adapters` of `create`.
+   */
+  async uploadBlob(
+    source: OllamaBlobSource,
+    options: OllamaManagementCallOptions = {},
+  ): Promise<string> {
+    const digest = await computeSha256Digest(source);
+
+    // the check and the upload go to the same server:
+    await this.forEachHost(options, async hostOptions => {
+      if (await this.hasBlob(digest, hostOptions)) {
+        return;
+      }
+
+      await withRetry({
+        retry: this.config.retry,
+        abortSignal: hostOptions.abortSignal,
+        request: () =>
+          postToApi({
+            url: this.config.url({ path: `/blobs/${digest}` }),
+            headers: combineHeaders(
+              this.config.headers(),
+              { "Content-Type": "application/octet-stream" },
+              hostOptions.headers,
+            ),
+            body: {
+              // streamed sources are sent by the fetch function instead
+              content: typeof source === "function" ? "" : source,
+              values: { digest },
+            },
+            failedResponseHandler: ollamaFailedResponseHandler,
+            successfulResponseHandler: emptyResponseHandler,
+            abortSignal: hostOptions.abortSignal,
+            fetch:
+              typeof source === "function"
+                ? this.withStreamingBody(source, hostOptions)
+                : this.getFetch(hostOptions),
+          }),
+      });
+    });
+
+    return digest;
+  }
+
+  private async sendEmptyGenerateRequest({
+    modelId,
+    keepAlive,
+    options,
+  }: {
+    modelId: string;
+    keepAlive: string | number | undefined;
+    options: OllamaManagementCallOptions;
+  }): Promise<void> {
+    await withRetry({
+      retry: this.config.retry,
+      abortSignal: options.abortSignal,
+      request: () =>
+        postJsonToApi({
+          url: this.config.url({ path: "/generate", modelId }),
+          headers: combineHeaders(this.config.headers(), options.headers),
+          body: {
+            model: modelId,
+            ...(keepAlive != null && { keep_alive: keepAlive }),
+            stream: false,
+          },
+          failedResponseHandler: ollamaFailedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            ollamaLoadResponseSchema,
+          ),
+          abortSignal: options.abortSignal,
+          fetch: this.getFetch(options),
+        }),
+    });
+  }
+
+  private streamProgress({
+    path,
+    modelId,
+    body: requestBody,
+    options,
+  }: {
+    path: string;
+    modelId: string;
+    body: Record<string, unknown>;
+    options: OllamaManagementCallOptions;
+  }): OllamaProgressStream {
+    const url = this.config.url({ path, modelId });
+    const body = { ...requestBody, stream: true };
+
+    return new OllamaProgressStream({
+      url,
+      requestBodyValues: body,
+      start: async () => {
+        const { value } = await withStreamRetry({
+          retry: this.config.retry,
+          abortSignal: options.abortSignal,
+          request: () =>
+            postJsonToApi({
+              url,
+              headers: combineHeaders(this.config.headers(), options.headers),
+              body,
+              failedResponseHandler: ollamaFailedResponseHandler,
+              successfulResponseHandler: createNdjsonStreamResponseHandler(
+                ollamaProgressEventSchema,
+              ),
+              abortSignal: options.abortSignal,
+              fetch: this.getFetch(options),
+            }),
+        });
+
+        return value;
+      },
+    });
+  }
+
+  // Calls that act on the state of a single server run on every server of a
+  // pool, unless the options select a server:
+  private forEachHost<OPTIONS extends OllamaManagementCallOptions, T>(
+    options: OPTIONS,
+    request: (options: OPTIONS) => Promise<T>,
+  ): Promise<T[]> {
+    const pool = this.config.pool;
+
+    if (pool == null || options.host != null) {
+      return Promise.all([request(options)]);
+    }
+
+    return Promise.all(pool.baseURLs.map(host => request({ ...options, host })));
+  }
+
+  private getFetch({
+    host,
+  }: OllamaManagementCallOptions): FetchFunction | undefined {
+    if (host == null) {
+      return this.config.fetch;
+    }
+
+    if (this.config.pool == null) {
+      throw new Error("The host option requires a pool of Ollama servers.");
+    }
+
+    return this.config.pool.createHostFetch(host);
+  }
+
+  // The provider-utils API helpers only issue GET and POST requests:
+  private withMethod(
+    method: string,
+    options: OllamaManagementCallOptions,
+  ): FetchFunction {
+    const fetchFunction = this.getFetch(options) ?? fetch;
+    return (input, init) => fetchFunction(input, { ...init, method });
+  }
+
+  // postToApi only sends in-memory bodies. The stream is opened per request
+  // so that retries re-read the source, and Node's fetch requires `duplex`
+  // for streamed request bodies.
+  private withStreamingBody(
+    openStream: () => ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+    options: OllamaManagementCallOptions,
+  ): FetchFunction {
+    const fetchFunction = this.getFetch(options) ?? fetch;
+    return (input, init) => {
+      const streamingInit = {
+        ...init,
+        body: toReadableStream(openStream()),
+        duplex: "half",
+      };
+      return fetchFunction(input, streamingInit);
+    };
+  }
+}
+
+const emptyResponseHandler: ResponseHandler<void> = async ({ response }) => ({
+  value: undefined,
+  responseHeaders: extractResponseHeaders(response),
+});
+
+async function computeSha256Digest(source: OllamaBlobSource): Promise<string> {
+  const hash = new Sha256();
+
+  if (typeof source === "function") {
+    const reader = toReadableStream(source()).getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      hash.update(value);
+    }
+  } else {
+    hash.update(source);
+  }
+
+  return `sha256:${hash.digest()}`;
+}
+
+function toReadableStream(
+  stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  if (stream instanceof ReadableStream) {
+    return stream;
+  }
+
+  const iterator = stream[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+}
+
+// model_info keys are prefixed with the architecture, e.g. `llama.context_length`
+function extractContextLength(
+  modelInfo: Record<string, unknown> | null | undefined,
+): number | undefined {
+  for (const [key, value] of Object.entries(modelInfo ?? {})) {
+    if (key.endsWith(".context_length") && typeof value === "number") {
+      return value;
+    }
+  }
+  return undefined;
+}
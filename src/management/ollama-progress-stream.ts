@@ -0,0 +1,116 @@
+import { APICallError } from "@ai-sdk/provider";
+import { NdjsonParseResult } from "../common/ndjson-stream-handler";
+import { OllamaProgressEvent } from "./ollama-management-api-types";
+
+/**
+ * Progress of a long-running Ollama operation such as pulling or pushing a model.
+ *
+ * The operation can either be iterated with `for await` to observe each progress
+ * event, or awaited directly. Awaiting resolves with the final `success` event
+ * and rejects when the server reports an error or the stream ends early.
+ */
+export class OllamaProgressStream
+  implements AsyncIterable<OllamaProgressEvent>, PromiseLike<OllamaProgressEvent>
+{
+  private readonly events: AsyncGenerator<OllamaProgressEvent>;
+  private readonly completion: Promise<OllamaProgressEvent>;
+  private resolveCompletion!: (event: OllamaProgressEvent) => void;
+  private rejectCompletion!: (error: unknown) => void;
+  private consumed = false;
+
+  constructor(
+    private readonly options: {
+      url: string;
+      requestBodyValues: unknown;
+      start: () => Promise<ReadableStream<NdjsonParseResult<OllamaProgressEvent>>>;
+    },
+  ) {
+    this.completion = new Promise((resolve, reject) => {
+      this.resolveCompletion = resolve;
+      this.rejectCompletion = reject;
+    });
+    // errors are surfaced to the consumer through iteration or `then`:
+    this.completion.catch(() => {});
+    this.events = this.iterate();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<OllamaProgressEvent> {
+    this.consumed = true;
+    return this.events;
+  }
+
+  then<TResult1 = OllamaProgressEvent, TResult2 = never>(
+    onfulfilled?:
+      | ((value: OllamaProgressEvent) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    if (!this.consumed) {
+      this.consumed = true;
+      (async () => {
+        for await (const _event of this.events) {
+          // drain the stream until the final event
+        }
+      })().catch(() => {});
+    }
+
+    return this.completion.then(onfulfilled, onrejected);
+  }
+
+  private async *iterate(): AsyncGenerator<OllamaProgressEvent> {
+    let lastEvent: OllamaProgressEvent | undefined;
+    let settled = false;
+
+    try {
+      const reader = (await this.options.start()).getReader();
+      let finished = false;
+
+      try {
+        while (true) {
+          const { done, value: chunk } = await reader.read();
+
+          if (done) {
+            finished = true;
+            break;
+          }
+
+          // server errors are reported as failed results:
+          if (!chunk.success) {
+            throw chunk.error;
+          }
+
+          lastEvent = chunk.value;
+          yield chunk.value;
+        }
+      } finally {
+        // stop the download when the consumer stops iterating early:
+        if (!finished) {
+          await reader.cancel().catch(() => {});
+        }
+        reader.releaseLock();
+      }
+
+      if (lastEvent?.status !== "success") {
+        throw new APICallError({
+          message: "The Ollama stream ended before reporting success.",
+          url: this.options.url,
+          requestBodyValues: this.options.requestBodyValues,
+          isRetryable: true,
+        });
+      }
+
+      settled = true;
+      this.resolveCompletion(lastEvent);
+    } catch (error) {
+      settled = true;
+      this.rejectCompletion(error);
+      throw error;
+    } finally {
+      if (!settled) {
+        this.rejectCompletion(
+          new Error("The Ollama progress stream was closed before completion."),
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Sha256 } from './sha256';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('Sha256', () => {
+  it.each([
+    [
+      '',
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    ],
+    [
+      'abc',
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    ],
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    ],
+  ])('should hash %j', (text, expected) => {
+    expect(new Sha256().update(encode(text)).digest()).toBe(expected);
+  });
+
+  it('should give the same digest for any chunking', () => {
+    const data = encode('a'.repeat(1000));
+    const expected = new Sha256().update(data).digest();
+
+    for (const chunkSize of [1, 7, 63, 64, 65, 500]) {
+      const hash = new Sha256();
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        hash.update(data.subarray(offset, offset + chunkSize));
+      }
+      expect(hash.digest()).toBe(expected);
+    }
+  });
+
+  it('should hash one million bytes', () => {
+    expect(new Sha256().update(encode('a'.repeat(1_000_000))).digest()).toBe(
+      'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0',
+    );
+  });
+});
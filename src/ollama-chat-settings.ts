@@ -1,4 +1,7 @@
 import { z } from "zod/v4";
+import { ollamaQueueOptions } from "./common/ollama-concurrency-limiter";
+import { ollamaRuntimeOptions } from "./common/ollama-runtime-options";
+import { ollamaStreamTimeoutSettings } from "./common/ollama-stream-timeout";
 
 // https://platform.ollama.com/docs/models
 export type OllamaChatModelId =
@@ -215,25 +218,92 @@ export const ollamaProviderOptions = z.object({
   /**
    * Enable or disable the model's thinking process. When enabled, the output will separate
    * the model's thinking from the model's output. When disabled, the model will not think
-   * and directly output the content.
+   * and directly output the content. Models like gpt-oss accept a reasoning effort level
+   * (`"low"`, `"medium"` or `"high"`) instead.
    *
-   * Only supported by certain models like DeepSeek R1 and Qwen 3.
+   * Only supported by certain models like DeepSeek R1 and Qwen 3. When not set, the
+   * model's default behavior is used.
    */
-  think: z.boolean().optional(),
-  options: z.object({
-    num_ctx: z.number().optional(),
-    repeat_last_n: z.number().optional(),
-    repeat_penalty: z.number().optional(),
-    temperature: z.number().optional(),
-    seed: z.number().optional(),
-    stop: z.array(z.string()).optional(),
-    num_predict: z.number().optional(),
-    top_k: z.number().optional(),
-    top_p: z.number().optional(),
-    min_p: z.number().optional(),
-  }).optional()
+  think: z.union([z.boolean(), z.enum(["low", "medium", "high"])]).optional(),
 
+  /**
+   * Reasoning effort level. Used as the `think` level when `think` is not set.
+   */
+  reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
 
+  /**
+   * Extract reasoning that the model emits inline in its text output, e.g.
+   * `<think>...</think>`, for models without native thinking support. Pass
+   * `true` to extract `<think>` tags or an object to use a different tag name.
+   * Set `startWithReasoning` when the chat template already opens the tag, so
+   * the output only contains the closing tag.
+   */
+  extractReasoning: z
+    .union([
+      z.boolean(),
+      z.object({
+        tagName: z.string().min(1).optional(),
+        startWithReasoning: z.boolean().optional(),
+      }),
+    ])
+    .optional(),
+
+  /**
+   * Recover tool calls that the model writes into its text output instead of
+   * returning structured tool calls. Recognizes Hermes-style `<tool_call>` tags,
+   * fenced JSON blocks and Mistral-style `[TOOL_CALLS]` markers by default.
+   * Only calls to tools of the request are recovered.
+   */
+  toolCallRecovery: z
+    .union([
+      z.boolean(),
+      z.object({
+        formats: z.array(z.enum(["hermes", "fenced-json", "mistral"])).optional(),
+      }),
+    ])
+    .optional(),
+
+  /**
+   * Validate tool call inputs against the tool's input schema. Trivially
+   * fixable values (e.g. `"42"` for a number) are coerced. With
+   * `repair: true`, invalid tool calls are sent back to the model once for
+   * repair. The outcome is reported in `providerMetadata.ollama.toolInputValidation`.
+   */
+  toolInputValidation: z
+    .union([z.boolean(), z.object({ repair: z.boolean().optional() })])
+    .optional(),
+
+  /**
+   * How images returned by tools are sent to the model. `"tool"` (default)
+   * attaches them to the tool message. `"user"` attaches them to a user message
+   * that follows the tool messages, for models that reject images on tool
+   * messages.
+   */
+  toolResultImageMode: z.enum(["tool", "user"]).optional(),
+
+  /**
+   * Timeouts for streaming calls in milliseconds. Overrides the provider's
+   * `streamTimeouts` setting.
+   */
+  streamTimeouts: ollamaStreamTimeoutSettings.optional(),
+
+  /**
+   * Priority and maximum queue wait of the request when the provider's
+   * concurrency limiter is enabled.
+   */
+  queue: ollamaQueueOptions.optional(),
+
+  /**
+   * How long the model stays loaded in memory after the request, e.g. `"10m"`,
+   * `"24h"` or a number of seconds. `0` unloads the model immediately and a
+   * negative value keeps it loaded indefinitely.
+   */
+  keepAlive: z.union([z.string(), z.number()]).optional(),
+
+  /**
+   * Ollama runtime options such as `num_ctx`, `mirostat` or `num_gpu`.
+   */
+  options: ollamaRuntimeOptions.optional(),
 });
 
 export type OllamaProviderOptions = z.infer<typeof ollamaProviderOptions>;
@@ -6,9 +6,34 @@ import {
 } from '@ai-sdk/provider';
 import {
   FetchFunction,
+  loadOptionalSetting,
   withoutTrailingSlash,
 } from '@ai-sdk/provider-utils';
-import { OllamaChatModelId, OllamaProviderOptions, ollamaProviderOptions } from './ollama-chat-settings';
+import { OllamaImageDownloadSettings } from './adaptors/convert-ollama-images-to-base64';
+import { loadOllamaHost } from './common/load-ollama-host';
+import {
+  OllamaConcurrencyLimiter,
+  OllamaConcurrencySettings,
+} from './common/ollama-concurrency-limiter';
+import {
+  OllamaHostPool,
+  OllamaPoolSettings,
+} from './common/ollama-host-pool';
+import {
+  OllamaRetryPolicy,
+  OllamaRetrySettings,
+} from './common/ollama-retry';
+import {
+  OllamaModelLoadTimes,
+  OllamaStreamTimeoutSettings,
+} from './common/ollama-stream-timeout';
+import { OllamaChatModelId, OllamaProviderOptions } from './ollama-chat-settings';
+import { OllamaCompatibleChatLanguageModel } from './compatible/ollama-compatible-chat-language-model';
+import { OllamaCompatibleEmbeddingModel } from './compatible/ollama-compatible-embedding-model';
+import {
+  OllamaCompatibleResponsesLanguageModel,
+  OllamaCompatibleResponsesProviderOptions,
+} from './compatible/ollama-compatible-responses-language-model';
 import { OllamaCompletionLanguageModel } from './completion/ollama-completion-language-model';
 import {
   OllamaCompletionModelId,
@@ -19,6 +44,15 @@ import {
   OllamaEmbeddingModelId,
   OllamaEmbeddingSettings,
 } from './embedding/ollama-embedding-settings';
+import {
+  OllamaAutoPull,
+  OllamaAutoPullSettings,
+} from './management/ollama-auto-pull';
+import {
+  OllamaManagementCallOptions,
+  OllamaModelManager,
+  OllamaPreloadOptions,
+} from './management/ollama-model-manager';
 import { OllamaResponsesLanguageModel } from './responses/ollama-responses-language-model';
 
 export interface OllamaProvider extends ProviderV3 {
@@ -37,6 +71,16 @@ Creates an Ollama chat model for text generation.
     settings?: OllamaProviderOptions,
   ): LanguageModelV3;
 
+  /**
+Creates a model for the OpenAI-compatible Responses API (`/v1/responses`),
+regardless of the `compatibility` setting. Responses can be continued with
+`providerOptions.ollama.previousResponseId`.
+   */
+  responses(
+    modelId: OllamaChatModelId,
+    settings?: OllamaCompatibleResponsesProviderOptions,
+  ): LanguageModelV3;
+
   /**
 Creates an Ollama completion model for text generation.
    */
@@ -71,14 +115,36 @@ Creates a model for text embeddings.
     settings?: OllamaEmbeddingSettings,
   ): EmbeddingModelV3;
 
+  /**
+Client for managing the models of the Ollama server (listing, inspecting,
+running models and server version).
+   */
+  models: OllamaModelManager;
+
+  /**
+Loads a model into memory, e.g. to warm it up at startup.
+   */
+  preload(modelId: string, options?: OllamaPreloadOptions): Promise<void>;
+
+  /**
+Unloads a model from memory, e.g. to free the GPU on shutdown.
+   */
+  unload(modelId: string, options?: OllamaManagementCallOptions): Promise<void>;
 }
 
 export interface OllamaProviderSettings {
   /**
-Base URL for the Ollama API calls.
+Base URL for the Ollama API calls. Defaults to the `OLLAMA_HOST` environment
+variable, e.g. `gpu-1:11434`, and otherwise to `http://127.0.0.1:11434/api`.
      */
   baseURL?: string;
 
+  /**
+API key that is sent as a bearer token, e.g. for Ollama cloud models or an
+authenticating proxy. Defaults to the `OLLAMA_API_KEY` environment variable.
+     */
+  apiKey?: string;
+
   /**
 Ollama Organization.
      */
@@ -95,9 +161,12 @@ Custom headers to include in the requests.
   headers?: Record<string, string>;
 
   /**
-Ollama compatibility mode. Should be set to `strict` when using the Ollama API,
-and `compatible` when using 3rd party providers. In `compatible` mode, newer
-information such as streamOptions are not being sent. Defaults to 'compatible'.
+Transport for chat and embedding models. `strict` uses the native Ollama API
+(`/api/chat`, `/api/embed`). `compatible` uses the OpenAI-compatible API
+(`/v1/chat/completions`, `/v1/embeddings`) with SSE streaming, e.g. for
+LM Studio, llama.cpp server, vLLM or Ollama's OpenAI layer. A base URL ending
+in `/api` is then replaced with `/v1`. Completion models and model management
+always use the native API. Defaults to 'strict'.
    */
   compatibility?: 'strict' | 'compatible';
 
@@ -111,6 +180,50 @@ Custom fetch implementation. You can use it as a middleware to intercept request
 or to provide a custom fetch implementation for e.g. testing.
     */
   fetch?: FetchFunction;
+
+  /**
+Automatically pull models that are missing on the Ollama server and retry the
+request once. Pass an object with an `onProgress` callback to observe the pull.
+Concurrent requests for the same model share a single pull. Disabled by default.
+   */
+  autoPull?: OllamaAutoPullSettings;
+
+  /**
+Limits for downloading image URLs in prompts. Ollama only accepts base64
+encoded images, so image URLs are downloaded with the configured `fetch`.
+   */
+  imageDownload?: OllamaImageDownloadSettings;
+
+  /**
+Timeouts for streaming calls: `firstChunkTimeout` limits the time until the
+first chunk arrives and `idleTimeout` the time between two chunks.
+`loadTimeout` extends the first chunk timeout for models that may have to be
+loaded first. Can be overridden per call with `providerOptions.ollama.streamTimeouts`.
+   */
+  streamTimeouts?: OllamaStreamTimeoutSettings;
+
+  /**
+Retry policy for transient failures, e.g. while Ollama swaps models or when its
+request queue is full. Applies to all calls with exponential backoff and jitter.
+Streams are only retried before their first chunk. Disabled by default.
+   */
+  retry?: OllamaRetrySettings;
+
+  /**
+Pool of Ollama servers that requests are distributed across. All models and
+management calls share the routing. Unhealthy servers are ejected temporarily
+and requests fail over to the next server before the first streamed byte.
+Takes precedence over `baseURL`.
+   */
+  pool?: OllamaPoolSettings;
+
+  /**
+Client-side limits for the requests in flight per server and per model. Chat,
+completion and embedding requests above the limits wait in a queue, ordered by
+`providerOptions.ollama.queue.priority`. The time spent in the queue is reported
+as `providerMetadata.ollama.queueWait`. Disabled by default.
+   */
+  concurrency?: OllamaConcurrencySettings;
 }
 
 /**
@@ -119,17 +232,78 @@ Create an Ollama provider instance.
 export function createOllama(
   options: OllamaProviderSettings = {},
 ): OllamaProvider {
+  const getHeaders = () => {
+    const apiKey = loadOptionalSetting({
+      settingValue: options.apiKey,
+      environmentVariableName: 'OLLAMA_API_KEY',
+    });
+
+    return {
+      Authorization: apiKey != null ? `Bearer ${apiKey}` : undefined,
+      'Ollama-Organization': options.organization,
+      'Ollama-Project': options.project,
+      ...options.headers,
+    };
+  };
+
+  // the pool enforces the per-server limit, since it selects the server:
+  const pool =
+    options.pool != null
+      ? new OllamaHostPool(options.pool, {
+          maxRequestsPerHost: options.concurrency?.maxRequestsPerHost,
+          headers: getHeaders,
+          fetch: options.fetch,
+        })
+      : undefined;
+
   const baseURL =
-    withoutTrailingSlash(options.baseURL) ?? 'http://127.0.0.1:11434/api';
+    pool?.baseURL ??
+    withoutTrailingSlash(options.baseURL) ??
+    loadOllamaHost() ??
+    'http://127.0.0.1:11434/api';
+
+  // routes requests to the pool's base URL to the selected server:
+  const fetch = pool != null ? pool.createFetch() : options.fetch;
+
+  // Ollama serves the OpenAI-compatible API next to its native API:
+  const isCompatible = options.compatibility === 'compatible';
+  const compatibleBaseURL = baseURL.replace(/\/api$/, '/v1');
 
   const providerName = options.name ?? 'ollama';
 
-  const getHeaders = () => ({
-    'Ollama-Organization': options.organization,
-    'Ollama-Project': options.project,
-    ...options.headers,
+  const retry =
+    options.retry != null ? new OllamaRetryPolicy(options.retry) : undefined;
+
+  const concurrency =
+    options.concurrency != null
+      ? new OllamaConcurrencyLimiter(options.concurrency, {
+          hostCount: options.pool?.baseURLs.length,
+        })
+      : undefined;
+
+  const models = new OllamaModelManager({
+    provider: `${providerName}.models`,
+    url: ({ path }) => `${baseURL}${path}`,
+    headers: getHeaders,
+    fetch,
+    retry,
+    pool,
   });
 
+  const autoPull = options.autoPull
+    ? new OllamaAutoPull({
+        models,
+        onProgress:
+          typeof options.autoPull === 'object'
+            ? options.autoPull.onProgress
+            : undefined,
+        pool,
+      })
+    : undefined;
+
+  // shared by all models, so that cold starts extend the first chunk timeout:
+  const modelLoadTimes = new OllamaModelLoadTimes();
+
   const createCompletionModel = (
     modelId: OllamaCompletionModelId,
     settings: OllamaCompletionSettings = {},
@@ -138,37 +312,104 @@ export function createOllama(
       provider: `${providerName}.completion`,
       url: ({ path }) => `${baseURL}${path}`,
       headers: getHeaders,
-      fetch: options.fetch,
+      fetch,
+      autoPull,
+      streamTimeouts: options.streamTimeouts,
+      modelLoadTimes,
+      retry,
+      concurrency,
     });
 
   const createEmbeddingModel = (
     modelId: OllamaEmbeddingModelId,
     settings: OllamaEmbeddingSettings = {},
-  ) =>
-    new OllamaEmbeddingModel(modelId, settings, {
+  ) => {
+    if (isCompatible) {
+      return new OllamaCompatibleEmbeddingModel(modelId, settings, {
+        provider: `${providerName}.embedding`,
+        url: ({ path }) => `${compatibleBaseURL}${path}`,
+        headers: getHeaders,
+        fetch,
+        autoPull,
+        retry,
+        concurrency,
+      });
+    }
+
+    return new OllamaEmbeddingModel(modelId, settings, {
       provider: `${providerName}.embedding`,
       url: ({ path }) => `${baseURL}${path}`,
       headers: getHeaders,
-      fetch: options.fetch,
+      fetch,
+      autoPull,
+      retry,
+      concurrency,
     });
+  };
 
   const createLanguageModel = (
-    modelId: OllamaChatModelId) => {
+    modelId: OllamaChatModelId,
+    settings: OllamaProviderOptions = {},
+  ) => {
     if (new.target) {
       throw new Error(
         'The Ollama model function cannot be called with the new keyword.',
       );
     }
 
-    return createResponsesModel(modelId);
+    return isCompatible
+      ? createCompatibleChatModel(modelId, settings)
+      : createResponsesModel(modelId, settings);
   };
 
-  const createResponsesModel = (modelId: OllamaChatModelId) => {
-    return new OllamaResponsesLanguageModel(modelId, {
+  const createCompatibleChatModel = (
+    modelId: OllamaChatModelId,
+    settings: OllamaProviderOptions = {},
+  ) =>
+    new OllamaCompatibleChatLanguageModel(modelId, settings, {
+      provider: `${providerName}.chat`,
+      url: ({ path }) => `${compatibleBaseURL}${path}`,
+      headers: getHeaders,
+      fetch,
+      autoPull,
+      imageDownload: options.imageDownload,
+      streamTimeouts: options.streamTimeouts,
+      modelLoadTimes,
+      retry,
+      concurrency,
+    });
+
+  const createResponsesApiModel = (
+    modelId: OllamaChatModelId,
+    settings: OllamaCompatibleResponsesProviderOptions = {},
+  ) =>
+    new OllamaCompatibleResponsesLanguageModel(modelId, settings, {
+      provider: `${providerName}.responses`,
+      url: ({ path }) => `${compatibleBaseURL}${path}`,
+      headers: getHeaders,
+      fetch,
+      autoPull,
+      streamTimeouts: options.streamTimeouts,
+      modelLoadTimes,
+      retry,
+      concurrency,
+    });
+
+  const createResponsesModel = (
+    modelId: OllamaChatModelId,
+    settings: OllamaProviderOptions = {},
+  ) => {
+    return new OllamaResponsesLanguageModel(modelId, settings, {
       provider: `${providerName}.responses`,
       url: ({ path }) => `${baseURL}${path}`,
       headers: getHeaders,
-      fetch: options.fetch,
+      fetch,
+      autoPull,
+      imageDownload: options.imageDownload,
+      streamTimeouts: options.streamTimeouts,
+      modelLoadTimes,
+      retry,
+      concurrency,
     });
   };
 
@@ -179,11 +420,17 @@ export function createOllama(
   provider.specificationVersion = 'v3' as const;
   provider.languageModel = createLanguageModel;
   provider.chat = createLanguageModel;
+  provider.responses = createResponsesApiModel;
   provider.completion = createCompletionModel;
   provider.embedding = createEmbeddingModel;
   provider.textEmbedding = createEmbeddingModel;
   provider.textEmbeddingModel = createEmbeddingModel;
   provider.embeddingModel = createEmbeddingModel;
+  provider.models = models;
+  provider.preload = (modelId: string, options?: OllamaPreloadOptions) =>
+    models.preload(modelId, options);
+  provider.unload = (modelId: string, options?: OllamaManagementCallOptions) =>
+    models.unload(modelId, options);
   provider.imageModel = (modelId: string) => {
     throw new NoSuchModelError({
       modelId,
@@ -1,15 +1,16 @@
 import {
-  LanguageModelV2Prompt,
+  LanguageModelV3Prompt,
   SharedV3Warning,
   UnsupportedFunctionalityError
 } from '@ai-sdk/provider';
+import { convertToBase64 } from '@ai-sdk/provider-utils';
 import { OllamaResponsesPrompt } from './ollama-responses-api-types';
   
   export function convertToOllamaResponsesMessages({
     prompt,
     systemMessageMode,
   }: {
-    prompt: LanguageModelV2Prompt;
+    prompt: LanguageModelV3Prompt;
     systemMessageMode: 'system' | 'developer' | 'remove';
   }): {
     messages: OllamaResponsesPrompt;
@@ -67,10 +68,14 @@ import { OllamaResponsesPrompt } from './ollama-responses-api-types';
                       image_url:
                         part.data instanceof URL
                           ? part.data.toString()
-                          : `data:${mediaType};base64,${part.data}`,
+                          : `data:${mediaType};base64,${convertToBase64(part.data)}`,
   
                       // Ollama specific extension: image detail
-                      detail: part.providerOptions?.ollama?.imageDetail,
+                      detail: part.providerOptions?.ollama?.imageDetail as
+                        | 'low'
+                        | 'high'
+                        | 'auto'
+                        | undefined,
                     };
                   } else if (part.mediaType === 'application/pdf') {
                     if (part.data instanceof URL) {
@@ -83,7 +88,7 @@ import { OllamaResponsesPrompt } from './ollama-responses-api-types';
                     return {
                       type: 'input_file',
                       filename: part.filename ?? `part-${index}.pdf`,
-                      file_data: `data:application/pdf;base64,${part.data}`,
+                      file_data: `data:application/pdf;base64,${convertToBase64(part.data)}`,
                     };
                   } else {
                     throw new UnsupportedFunctionalityError({
@@ -137,6 +142,11 @@ import { OllamaResponsesPrompt } from './ollama-responses-api-types';
   
         case 'tool': {
           for (const part of content) {
+            if (part.type !== 'tool-result') {
+              // tool approval responses have no Responses API equivalent:
+              continue;
+            }
+
             const output = part.output;
   
             let contentValue: string;
@@ -150,6 +160,10 @@ import { OllamaResponsesPrompt } from './ollama-responses-api-types';
               case 'error-json':
                 contentValue = JSON.stringify(output.value);
                 break;
+              case 'execution-denied':
+                contentValue =
+                  output.reason ?? 'The tool execution was denied.';
+                break;
             }
   
             messages.push({
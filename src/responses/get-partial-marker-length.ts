@@ -0,0 +1,13 @@
+/**
+ * Returns the length of the longest prefix of `marker` that the text ends
+ * with, so that streaming code can hold back a marker that is split across
+ * chunks.
+ */
+export function getPartialMarkerLength(text: string, marker: string): number {
+  for (let length = Math.min(marker.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(marker.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,125 @@
+import { getPartialMarkerLength } from "./get-partial-marker-length";
+
+export interface ReasoningExtractionSettings {
+  /**
+   * Name of the tag that wraps the reasoning, e.g. `think` for `<think>...</think>`.
+   */
+  tagName: string;
+
+  /**
+   * Whether the output starts inside the reasoning tag. Some chat templates
+   * add the opening tag to the prompt, so the model only emits the closing tag.
+   */
+  startWithReasoning: boolean;
+}
+
+const DEFAULT_REASONING_TAG_NAME = "think";
+
+/**
+ * Resolves the `extractReasoning` setting. Returns `undefined` when extraction
+ * is disabled.
+ */
+export function resolveReasoningExtraction(
+  setting:
+    | boolean
+    | { tagName?: string; startWithReasoning?: boolean }
+    | undefined,
+): ReasoningExtractionSettings | undefined {
+  if (setting == null || setting === false) {
+    return undefined;
+  }
+
+  const { tagName = DEFAULT_REASONING_TAG_NAME, startWithReasoning = false } =
+    setting === true ? {} : setting;
+
+  return { tagName, startWithReasoning };
+}
+
+export type ReasoningSegment = { type: "text" | "reasoning"; text: string };
+
+/**
+ * Splits text that contains inline reasoning tags (e.g. `<think>...</think>`)
+ * into text and reasoning segments.
+ *
+ * The extractor is stateful so that it can be fed streaming deltas: tags that
+ * are split across chunks are held back until they can be recognized.
+ */
+export class ReasoningExtractor {
+  private readonly openingTag: string;
+  private readonly closingTag: string;
+  private isReasoning: boolean;
+  private afterReasoning = false;
+  private buffer = "";
+
+  constructor({ tagName, startWithReasoning }: ReasoningExtractionSettings) {
+    this.openingTag = `<${tagName}>`;
+    this.closingTag = `</${tagName}>`;
+    this.isReasoning = startWithReasoning;
+  }
+
+  process(delta: string): ReasoningSegment[] {
+    const segments: ReasoningSegment[] = [];
+    this.buffer += delta;
+
+    while (true) {
+      const tag = this.isReasoning ? this.closingTag : this.openingTag;
+      const index = this.buffer.indexOf(tag);
+
+      if (index === -1) {
+        // keep a potential partial tag at the end of the buffer:
+        const keep = getPartialMarkerLength(this.buffer, tag);
+        this.emit(segments, this.buffer.slice(0, this.buffer.length - keep));
+        this.buffer = this.buffer.slice(this.buffer.length - keep);
+        return segments;
+      }
+
+      this.emit(segments, this.buffer.slice(0, index));
+      this.buffer = this.buffer.slice(index + tag.length);
+      this.afterReasoning = this.isReasoning;
+      this.isReasoning = !this.isReasoning;
+    }
+  }
+
+  flush(): ReasoningSegment[] {
+    const segments: ReasoningSegment[] = [];
+    this.emit(segments, this.buffer);
+    this.buffer = "";
+    return segments;
+  }
+
+  private emit(segments: ReasoningSegment[], text: string) {
+    // drop the whitespace that separates the reasoning from the answer:
+    if (!this.isReasoning && this.afterReasoning) {
+      text = text.replace(/^\s+/, "");
+      if (text.length > 0) {
+        this.afterReasoning = false;
+      }
+    }
+
+    if (text.length > 0) {
+      segments.push({ type: this.isReasoning ? "reasoning" : "text", text });
+    }
+  }
+}
+
+/**
+ * Extracts reasoning from a complete text.
+ */
+export function extractReasoning(
+  text: string,
+  settings: ReasoningExtractionSettings,
+): { text: string; reasoning: string } {
+  const extractor = new ReasoningExtractor(settings);
+  const segments = [...extractor.process(text), ...extractor.flush()];
+
+  return {
+    text: segments
+      .filter(segment => segment.type === "text")
+      .map(segment => segment.text)
+      .join(""),
+    reasoning: segments
+      .filter(segment => segment.type === "reasoning")
+      .map(segment => segment.text)
+      .join(""),
+  };
+}
@@ -20,7 +20,7 @@ export type OllamaResponsesUserMessage = {
   role: "user";
   content: Array<
     | { type: "input_text"; text: string }
-    | { type: "input_image"; image_url: string }
+    | { type: "input_image"; image_url: string; detail?: "low" | "high" | "auto" }
     | { type: "input_file"; filename: string; file_data: string }
   >;
 };
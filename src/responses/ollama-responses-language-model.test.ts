@@ -1,3 +1,16 @@
+import {
+  JSONParseError,
+  LanguageModelV3Prompt,
+  TypeValidationError,
+} from '@ai-sdk/provider';
+import { OllamaConcurrencyLimiter } from '../common/ollama-concurrency-limiter';
+import { OllamaRetryPolicy } from '../common/ollama-retry';
+import { OllamaModelLoadTimes } from '../common/ollama-stream-timeout';
+import {
+  OllamaModelLoadError,
+  OllamaStreamTimeoutError,
+} from '../completion/ollama-error';
+import { convertReadableStreamToArray } from '../test-utils/test-server';
 import { OllamaResponsesLanguageModel } from './ollama-responses-language-model';
 import {
   TEST_MODEL_ID,
@@ -12,7 +25,7 @@ import {
 
 describe('OllamaResponsesLanguageModel', () => {
   const testConfig = createTestConfig();
-  const model = new OllamaResponsesLanguageModel(TEST_MODEL_ID, testConfig);
+  const model = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, testConfig);
   const server = createMockServer();
 
   describe('Model Properties', () => {
@@ -80,6 +93,43 @@ describe('OllamaResponsesLanguageModel', () => {
       });
     });
 
+    describe('Provider Metadata', () => {
+      it('should expose timing and throughput metrics', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'json-value',
+          body: {
+            model: TEST_MODEL_ID,
+            created_at: '2024-01-01T00:00:00.000Z',
+            done: true,
+            done_reason: 'stop',
+            message: { role: 'assistant', content: 'Hi' },
+            total_duration: 5_000_000_000,
+            load_duration: 3_000_000_000,
+            prompt_eval_count: 10,
+            prompt_eval_duration: 500_000_000,
+            eval_count: 20,
+            eval_duration: 1_000_000_000,
+          },
+        };
+
+        const result = await model.doGenerate({ prompt: TEST_PROMPT });
+
+        expect(result.providerMetadata).toStrictEqual({
+          ollama: {
+            totalDuration: 5_000_000_000,
+            loadDuration: 3_000_000_000,
+            promptEvalCount: 10,
+            promptEvalDuration: 500_000_000,
+            evalCount: 20,
+            evalDuration: 1_000_000_000,
+            promptTokensPerSecond: 20,
+            generationTokensPerSecond: 20,
+            coldLoad: true,
+          },
+        });
+      });
+    });
+
     describe('Tool Calls', () => {
       it('should handle tool calls', async () => {
         prepareJsonResponse(server, {
@@ -138,104 +188,1568 @@ describe('OllamaResponsesLanguageModel', () => {
       });
     });
 
-    describe('Settings and Options', () => {
-      it('should return warnings for unsupported settings', async () => {
-        prepareJsonResponse(server);
+    describe('Tool Call Recovery', () => {
+      const recoveryModel = new OllamaResponsesLanguageModel(
+        TEST_MODEL_ID,
+        { toolCallRecovery: true },
+        testConfig,
+      );
+
+      it('should leave tool call markup in the text by default', async () => {
+        const content =
+          '<tool_call>{"name":"weather","arguments":{"location":"Berlin"}}</tool_call>';
+        prepareJsonResponse(server, { content });
 
         const result = await model.doGenerate({
           prompt: TEST_PROMPT,
-          topK: 50,
-          seed: 123,
-          presencePenalty: 0.5,
-          frequencyPenalty: 0.3,
-          stopSequences: ['stop'],
+          tools: TEST_TOOLS,
         });
 
-        expect(result.warnings).toEqual([
-          { type: 'unsupported', feature: 'setting', details: 'topK' },
-          { type: 'unsupported', feature: 'setting', details: 'seed' },
-          { type: 'unsupported', feature: 'setting', details: 'presencePenalty' },
-          { type: 'unsupported', feature: 'setting', details: 'frequencyPenalty' },
-          { type: 'unsupported', feature: 'setting', details: 'stopSequences' },
+        expect(result.content).toEqual([{ type: 'text', text: content }]);
+      });
+
+      it.each([
+        [
+          'Hermes tags',
+          'Let me check.\n<tool_call>\n{"name":"weather","arguments":{"location":"Berlin"}}\n</tool_call>',
+        ],
+        [
+          'fenced JSON',
+          'Let me check.\n```json\n{"name":"weather","parameters":{"location":"Berlin"}}\n```',
+        ],
+        [
+          '[TOOL_CALLS] markers',
+          'Let me check.[TOOL_CALLS] [{"name":"weather","arguments":{"location":"Berlin"}}]',
+        ],
+      ])('should recover tool calls from %s', async (_, content) => {
+        prepareJsonResponse(server, { content });
+
+        const result = await recoveryModel.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+        });
+
+        expect(result.content).toEqual([
+          { type: 'text', text: 'Let me check.' },
+          {
+            type: 'tool-call',
+            toolCallId: expect.any(String),
+            toolName: 'weather',
+            input: '{"location":"Berlin"}',
+          },
         ]);
+        expect(result.finishReason).toEqual({
+          unified: 'tool-calls',
+          raw: 'tool_calls',
+        });
       });
 
-      it('should handle JSON response format', async () => {
-        prepareJsonResponse(server, {
-          content: '{"result": "success"}',
+      it('should not recover calls to unknown tools', async () => {
+        const content =
+          '<tool_call>{"name":"search","arguments":{"query":"Berlin"}}</tool_call>';
+        prepareJsonResponse(server, { content });
+
+        const result = await recoveryModel.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
         });
 
+        expect(result.content).toEqual([{ type: 'text', text: content }]);
+        expect(result.finishReason.unified).toBe('stop');
+      });
+
+      it('should only recover the configured formats', async () => {
+        const content =
+          '```json\n{"name":"weather","arguments":{"location":"Berlin"}}\n```';
+        prepareJsonResponse(server, { content });
+
         const result = await model.doGenerate({
           prompt: TEST_PROMPT,
-          responseFormat: {
-            type: 'json',
-            schema: {
-              type: 'object',
-              properties: { result: { type: 'string' } },
-            },
+          tools: TEST_TOOLS,
+          providerOptions: {
+            ollama: { toolCallRecovery: { formats: ['hermes'] } },
           },
         });
 
-        expect(result.content[0]).toEqual({
-          type: 'text',
-          text: '{"result": "success"}',
+        expect(result.content).toEqual([{ type: 'text', text: content }]);
+      });
+    });
+
+    describe('Images', () => {
+      const imagePrompt = (data: Uint8Array | URL): LanguageModelV3Prompt => [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe the image' },
+            { type: 'file', data, mediaType: 'image/png' },
+          ],
+        },
+      ];
+
+      const prepareImageResponse = (contentType: string) => {
+        server.urls['https://example.com/image.png'].response = {
+          type: 'stream-chunks',
+          headers: { 'Content-Type': contentType },
+          chunks: ['image'],
+        };
+      };
+
+      it('should convert binary image data to base64', async () => {
+        prepareJsonResponse(server);
+
+        await model.doGenerate({
+          prompt: imagePrompt(new TextEncoder().encode('image')),
         });
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.messages[0].images).toEqual(['aW1hZ2U=']);
       });
 
-      it('should handle provider options', async () => {
+      it('should download image URLs with the configured fetch', async () => {
+        prepareJsonResponse(server);
+        prepareImageResponse('image/png');
+        const fetch = vi.fn(globalThis.fetch);
+
+        const imageModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+          ...testConfig,
+          fetch,
+        });
+
+        await imageModel.doGenerate({
+          prompt: imagePrompt(new URL('https://example.com/image.png')),
+        });
+
+        expect(fetch.mock.calls[0][0]).toBe('https://example.com/image.png');
+        const body = await server.calls[1].requestBodyJson;
+        expect(body.messages[0].images).toEqual(['aW1hZ2U=']);
+      });
+
+      it('should reject downloads that are not images', async () => {
+        prepareJsonResponse(server);
+        prepareImageResponse('text/html');
+
+        await expect(
+          model.doGenerate({
+            prompt: imagePrompt(new URL('https://example.com/image.png')),
+          }),
+        ).rejects.toThrow(
+          'Failed to download https://example.com/image.png: expected an image, but received content type text/html.',
+        );
+      });
+
+      it('should reject images above the size limit', async () => {
+        prepareJsonResponse(server);
+        prepareImageResponse('image/png');
+
+        const imageModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+          ...testConfig,
+          imageDownload: { maxBytes: 2 },
+        });
+
+        await expect(
+          imageModel.doGenerate({
+            prompt: imagePrompt(new URL('https://example.com/image.png')),
+          }),
+        ).rejects.toThrow(/exceeded maximum size/);
+        expect(server.calls).toHaveLength(1);
+      });
+    });
+
+    describe('Tool Results', () => {
+      const screenshotPrompt: LanguageModelV3Prompt = [
+        { role: 'user', content: [{ type: 'text', text: 'Take a screenshot' }] },
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'call_1',
+              toolName: 'screenshot',
+              input: {},
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'screenshot',
+              output: {
+                type: 'content',
+                value: [
+                  { type: 'text', text: 'Screenshot of the page' },
+                  { type: 'image-data', data: 'aW1hZ2U=', mediaType: 'image/png' },
+                ],
+              },
+            },
+          ],
+        },
+      ];
+
+      it('should send images of tool results on the tool message', async () => {
+        prepareJsonResponse(server);
+
+        await model.doGenerate({ prompt: screenshotPrompt });
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.messages.at(-1)).toEqual({
+          role: 'tool',
+          tool_call_id: 'call_1',
+          content: 'Screenshot of the page',
+          images: ['aW1hZ2U='],
+        });
+      });
+
+      it('should send images of tool results on a user message', async () => {
+        prepareJsonResponse(server);
+
+        await model.doGenerate({
+          prompt: screenshotPrompt,
+          providerOptions: { ollama: { toolResultImageMode: 'user' } },
+        });
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.messages.slice(-2)).toEqual([
+          {
+            role: 'tool',
+            tool_call_id: 'call_1',
+            content: 'Screenshot of the page',
+          },
+          {
+            role: 'user',
+            content: 'Images returned by the screenshot tool:',
+            images: ['aW1hZ2U='],
+          },
+        ]);
+      });
+
+      it('should replace non-image files of tool results with a placeholder', async () => {
         prepareJsonResponse(server);
 
+        const result = await model.doGenerate({
+          prompt: [
+            ...screenshotPrompt.slice(0, 2),
+            {
+              role: 'tool',
+              content: [
+                {
+                  type: 'tool-result',
+                  toolCallId: 'call_1',
+                  toolName: 'screenshot',
+                  output: {
+                    type: 'content',
+                    value: [
+                      { type: 'text', text: 'The page as PDF' },
+                      {
+                        type: 'file-data',
+                        data: 'JVBERi0xLjQ=',
+                        mediaType: 'application/pdf',
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        });
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.messages.at(-1)).toEqual({
+          role: 'tool',
+          tool_call_id: 'call_1',
+          content: 'The page as PDF\n[file: application/pdf]',
+        });
+        expect(result.warnings).toContainEqual({
+          type: 'unsupported',
+          feature: 'tool result file',
+          details: 'Files of type application/pdf are replaced with a placeholder.',
+        });
+      });
+    });
+
+    describe('Tool Input Validation', () => {
+      const weatherCall = (args: Record<string, unknown>) => [
+        { id: 'call_1', function: { name: 'weather', arguments: args } },
+      ];
+      const numericTools: typeof TEST_TOOLS = [
+        {
+          type: 'function',
+          name: 'weather',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              location: { type: 'string' },
+              days: { type: 'integer' },
+            },
+            required: ['location', 'days'],
+          },
+        },
+      ];
+
+      it('should coerce trivially fixable values', async () => {
+        prepareJsonResponse(server, {
+          content: '',
+          toolCalls: weatherCall({ location: 'Berlin', days: '3' }),
+        });
+
         const result = await model.doGenerate({
           prompt: TEST_PROMPT,
-          providerOptions: {
-            ollama: {
-              user: 'test-user',
-              metadata: { session: 'test' },
-              think: true,
+          tools: numericTools,
+          providerOptions: { ollama: { toolInputValidation: true } },
+        });
+
+        expect(result.content).toEqual([
+          {
+            type: 'tool-call',
+            toolCallId: 'call_1',
+            toolName: 'weather',
+            input: '{"location":"Berlin","days":3}',
+          },
+        ]);
+        expect(result.providerMetadata?.ollama.toolInputValidation).toEqual([
+          { toolCallId: 'call_1', toolName: 'weather', status: 'coerced', errors: [] },
+        ]);
+      });
+
+      it('should report invalid tool calls', async () => {
+        prepareJsonResponse(server, {
+          content: '',
+          toolCalls: weatherCall({ location: 'Berlin', days: 'soon' }),
+        });
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: numericTools,
+          providerOptions: { ollama: { toolInputValidation: true } },
+        });
+
+        expect(server.calls).toHaveLength(1);
+        expect(result.content[0]).toMatchObject({
+          type: 'tool-call',
+          input: '{"location":"Berlin","days":"soon"}',
+        });
+        expect(result.providerMetadata?.ollama.toolInputValidation).toEqual([
+          {
+            toolCallId: 'call_1',
+            toolName: 'weather',
+            status: 'invalid',
+            errors: ['"/days" must be of type integer.'],
+          },
+        ]);
+      });
+
+      it('should ask the model once to repair invalid tool calls', async () => {
+        const response = (message: Record<string, unknown>) => ({
+          type: 'json-value' as const,
+          body: {
+            model: TEST_MODEL_ID,
+            created_at: '2024-01-01T00:00:00.000Z',
+            done: true,
+            done_reason: 'stop',
+            message: { role: 'assistant', ...message },
+          },
+        });
+        server.urls['http://127.0.0.1:11434/api/chat'].responses = [
+          response({ content: '', tool_calls: weatherCall({ location: 'Berlin' }) }),
+          response({
+            content: '{"name":"weather","arguments":{"location":"Berlin","days":2}}',
+          }),
+        ];
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: numericTools,
+          providerOptions: { ollama: { toolInputValidation: { repair: true } } },
+        });
+
+        const repairBody = await server.calls[1].requestBodyJson;
+        expect(repairBody.format.properties.name).toEqual({
+          type: 'string',
+          enum: ['weather'],
+        });
+        expect(repairBody.messages.at(-1)).toEqual({
+          role: 'user',
+          content:
+            'The arguments of the weather tool call do not match its input schema: "/days" is required. Reply with the corrected tool call.',
+        });
+
+        expect(result.content).toEqual([
+          {
+            type: 'tool-call',
+            toolCallId: 'call_1',
+            toolName: 'weather',
+            input: '{"location":"Berlin","days":2}',
+          },
+        ]);
+        expect(result.providerMetadata?.ollama.toolInputValidation).toEqual([
+          { toolCallId: 'call_1', toolName: 'weather', status: 'repaired', errors: [] },
+        ]);
+      });
+
+      it('should keep the response and warn when the repair request fails', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].responses = [
+          {
+            type: 'json-value',
+            body: {
+              model: TEST_MODEL_ID,
+              created_at: '2024-01-01T00:00:00.000Z',
+              done: true,
+              done_reason: 'stop',
+              message: {
+                role: 'assistant',
+                content: '',
+                tool_calls: weatherCall({ location: 'Berlin' }),
+              },
             },
           },
+          { type: 'error', status: 400, body: { error: 'invalid format' } },
+        ];
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: numericTools,
+          providerOptions: { ollama: { toolInputValidation: { repair: true } } },
         });
 
-        expect(result.warnings).toEqual([]);
+        expect(server.calls).toHaveLength(2);
+        expect(result.content).toEqual([
+          {
+            type: 'tool-call',
+            toolCallId: 'call_1',
+            toolName: 'weather',
+            input: '{"location":"Berlin"}',
+          },
+        ]);
+        expect(result.providerMetadata?.ollama.toolInputValidation).toEqual([
+          {
+            toolCallId: 'call_1',
+            toolName: 'weather',
+            status: 'invalid',
+            errors: [
+              '"/days" is required.',
+              'The repair of the weather tool call failed: invalid format',
+            ],
+          },
+        ]);
+        expect(result.warnings).toContainEqual({
+          type: 'other',
+          message: 'The repair of the weather tool call failed: invalid format',
+        });
       });
     });
 
-    describe('Error Handling', () => {
-      it('should handle API errors', async () => {
-        prepareErrorResponse(server);
+    describe('Tool Choice', () => {
+      it('should not send tools when the tool choice is none', async () => {
+        prepareJsonResponse(server);
 
-        await expect(
-          model.doGenerate({
-            prompt: TEST_PROMPT,
-          })
-        ).rejects.toThrow();
+        await model.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          toolChoice: { type: 'none' },
+        });
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.tools).toBeUndefined();
+        expect(body.tool_choice).toBeUndefined();
       });
-    });
-  });
 
-  describe('doStream', () => {
-    describe('Basic Streaming', () => {
-      it('should handle basic streaming', async () => {
-        prepareStreamResponse(server);
+      it('should constrain the output to a tool call when required', async () => {
+        prepareJsonResponse(server, {
+          content: '{"name":"cityAttractions","arguments":{"city":"Paris"}}',
+        });
 
-        const result = await model.doStream({
+        const result = await model.doGenerate({
           prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          toolChoice: { type: 'required' },
         });
 
-        expect(result.response?.headers).toBeDefined();
-        expect(result.request?.body).toBeDefined();
-        expect(result.stream).toBeDefined();
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.tools).toHaveLength(2);
+        expect(body.format.anyOf).toHaveLength(2);
+        expect(body.format.anyOf[1]).toEqual({
+          type: 'object',
+          properties: {
+            name: { type: 'string', enum: ['cityAttractions'] },
+            arguments: TEST_TOOLS[1].inputSchema,
+          },
+          required: ['name', 'arguments'],
+        });
+
+        expect(result.content).toEqual([
+          {
+            type: 'tool-call',
+            toolCallId: expect.any(String),
+            toolName: 'cityAttractions',
+            input: '{"city":"Paris"}',
+          },
+        ]);
+        expect(result.finishReason.unified).toBe('tool-calls');
       });
 
-      it('should handle stream with warnings', async () => {
-        prepareStreamResponse(server);
+      it('should only send the selected tool', async () => {
+        prepareJsonResponse(server, {
+          content: '{"name":"weather","arguments":{"location":"Rome"}}',
+        });
 
-        const result = await model.doStream({
+        const result = await model.doGenerate({
           prompt: TEST_PROMPT,
-          topK: 50, // unsupported setting
+          tools: TEST_TOOLS,
+          toolChoice: { type: 'tool', toolName: 'weather' },
         });
 
-        expect(result.stream).toBeDefined();
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.tools).toEqual([
+          {
+            type: 'function',
+            function: {
+              name: 'weather',
+              parameters: TEST_TOOLS[0].inputSchema,
+            },
+          },
+        ]);
+        expect(body.format.properties.name).toEqual({
+          type: 'string',
+          enum: ['weather'],
+        });
+        expect(result.content).toEqual([
+          {
+            type: 'tool-call',
+            toolCallId: expect.any(String),
+            toolName: 'weather',
+            input: '{"location":"Rome"}',
+          },
+        ]);
+      });
+
+      it('should warn when the selected tool does not exist', async () => {
+        prepareJsonResponse(server);
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          toolChoice: { type: 'tool', toolName: 'search' },
+        });
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.tools).toHaveLength(2);
+        expect(body.format).toBeUndefined();
+        expect(result.warnings).toContainEqual({
+          type: 'other',
+          message:
+            'The tool choice "search" does not match any function tool and is ignored.',
+        });
+      });
+
+      it('should warn when a tool call cannot be enforced', async () => {
+        prepareJsonResponse(server, { content: '{"result":"ok"}' });
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          toolChoice: { type: 'required' },
+          responseFormat: { type: 'json' },
+        });
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body.format).toBe('json');
+        expect(result.content).toEqual([{ type: 'text', text: '{"result":"ok"}' }]);
+        expect(result.warnings).toContainEqual({
+          type: 'unsupported',
+          feature: 'toolChoice',
+          details:
+            'A tool call cannot be enforced together with a JSON response format.',
+        });
+      });
+    });
+
+    describe('Settings and Options', () => {
+      it('should map standard settings onto Ollama options', async () => {
+        prepareJsonResponse(server);
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          maxOutputTokens: 100,
+          temperature: 0.7,
+          topP: 0.9,
+          topK: 50,
+          seed: 123,
+          presencePenalty: 0.5,
+          frequencyPenalty: 0.3,
+          stopSequences: ['stop'],
+        });
+
+        expect(result.warnings).toEqual([]);
+
+        const body = await server.calls[0].requestBodyJson;
+        expect(body).toMatchObject({
+          options: {
+            num_predict: 100,
+            temperature: 0.7,
+            top_p: 0.9,
+            top_k: 50,
+            seed: 123,
+            presence_penalty: 0.5,
+            frequency_penalty: 0.3,
+            stop: ['stop'],
+          },
+        });
+        expect(body).not.toHaveProperty('temperature');
+        expect(body).not.toHaveProperty('top_p');
+        expect(body).not.toHaveProperty('max_output_tokens');
+      });
+
+      it('should let provider options override standard settings', async () => {
+        prepareJsonResponse(server);
+
+        const modelWithSettings = new OllamaResponsesLanguageModel(
+          TEST_MODEL_ID,
+          { options: { temperature: 0.1, num_predict: 10 } },
+          testConfig,
+        );
+
+        await modelWithSettings.doGenerate({
+          prompt: TEST_PROMPT,
+          temperature: 0.7,
+          providerOptions: { ollama: { options: { temperature: 0.2 } } },
+        });
+
+        expect(await server.calls[0].requestBodyJson).toMatchObject({
+          options: { temperature: 0.2, num_predict: 10 },
+        });
+      });
+
+      it('should handle JSON response format', async () => {
+        prepareJsonResponse(server, {
+          content: '{"result": "success"}',
+        });
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          responseFormat: {
+            type: 'json',
+            schema: {
+              type: 'object',
+              properties: { result: { type: 'string' } },
+            },
+          },
+        });
+
+        expect(result.content[0]).toEqual({
+          type: 'text',
+          text: '{"result": "success"}',
+        });
+      });
+
+      it('should handle provider options', async () => {
+        prepareJsonResponse(server);
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          providerOptions: {
+            ollama: {
+              user: 'test-user',
+              metadata: { session: 'test' },
+              think: true,
+            },
+          },
+        });
+
+        expect(result.warnings).toEqual([]);
+      });
+
+      it('should pass extended runtime options', async () => {
+        prepareJsonResponse(server);
+
+        const options = {
+          mirostat: 2 as const,
+          mirostat_eta: 0.1,
+          mirostat_tau: 5,
+          num_gpu: 99,
+          num_thread: 8,
+          num_batch: 512,
+          num_keep: 24,
+          typical_p: 0.7,
+          tfs_z: 1,
+          penalize_newline: true,
+          presence_penalty: 0.5,
+          frequency_penalty: 0.5,
+          use_mmap: false,
+          low_vram: true,
+          main_gpu: 0,
+        };
+
+        await model.doGenerate({
+          prompt: TEST_PROMPT,
+          providerOptions: { ollama: { options } },
+        });
+
+        expect(await server.calls[0].requestBodyJson).toMatchObject({
+          options,
+        });
+      });
+
+      it('should reject runtime options outside of their range', async () => {
+        await expect(
+          model.doGenerate({
+            prompt: TEST_PROMPT,
+            providerOptions: { ollama: { options: { top_p: 1.5 } } },
+          }),
+        ).rejects.toThrow();
+      });
+
+      it('should pass keep_alive from settings and provider options', async () => {
+        prepareJsonResponse(server);
+
+        const modelWithSettings = new OllamaResponsesLanguageModel(
+          TEST_MODEL_ID,
+          { keepAlive: '10m' },
+          testConfig,
+        );
+
+        await modelWithSettings.doGenerate({ prompt: TEST_PROMPT });
+        await modelWithSettings.doGenerate({
+          prompt: TEST_PROMPT,
+          providerOptions: { ollama: { keepAlive: -1 } },
+        });
+
+        expect(await server.calls[0].requestBodyJson).toMatchObject({
+          keep_alive: '10m',
+        });
+        expect(await server.calls[1].requestBodyJson).toMatchObject({
+          keep_alive: -1,
+        });
+      });
+
+      it('should not send think when it is not set', async () => {
+        prepareJsonResponse(server);
+
+        await model.doGenerate({ prompt: TEST_PROMPT });
+
+        expect(await server.calls[0].requestBodyJson).not.toHaveProperty(
+          'think',
+        );
+      });
+
+      it('should send think levels to models that support them', async () => {
+        prepareJsonResponse(server);
+
+        const gptOss = new OllamaResponsesLanguageModel(
+          'gpt-oss:20b',
+          {},
+          testConfig,
+        );
+
+        const result = await gptOss.doGenerate({
+          prompt: TEST_PROMPT,
+          providerOptions: { ollama: { reasoningEffort: 'high' } },
+        });
+
+        expect(result.warnings).toEqual([]);
+        expect(await server.calls[0].requestBodyJson).toMatchObject({
+          think: 'high',
+        });
+      });
+
+      it('should warn when a think level is sent to an on/off model', async () => {
+        prepareJsonResponse(server);
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          providerOptions: { ollama: { think: 'low' } },
+        });
+
+        expect(result.warnings).toEqual([
+          {
+            type: 'other',
+            message:
+              'The model llama2 only supports enabling or disabling thinking. The think level "low" is sent as think: true.',
+          },
+        ]);
+        expect(await server.calls[0].requestBodyJson).toMatchObject({
+          think: true,
+        });
+      });
+
+      it('should merge model settings with per-call provider options', async () => {
+        prepareJsonResponse(server);
+
+        const modelWithSettings = new OllamaResponsesLanguageModel(
+          TEST_MODEL_ID,
+          { think: true, options: { num_ctx: 32768, temperature: 0.1 } },
+          testConfig,
+        );
+
+        await modelWithSettings.doGenerate({
+          prompt: TEST_PROMPT,
+          providerOptions: {
+            ollama: { options: { temperature: 0.5 } },
+          },
+        });
+
+        expect(await server.calls[0].requestBodyJson).toMatchObject({
+          think: true,
+          options: { num_ctx: 32768, temperature: 0.5 },
+        });
+      });
+    });
+
+    describe('Reasoning Extraction', () => {
+      function prepareContentResponse(content: string) {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'json-value',
+          body: {
+            model: TEST_MODEL_ID,
+            created_at: '2024-01-01T00:00:00.000Z',
+            done: true,
+            done_reason: 'stop',
+            message: { role: 'assistant', content },
+          },
+        };
+      }
+
+      it('should keep reasoning tags in the text by default', async () => {
+        prepareContentResponse('<think>Let me think.</think>Hello!');
+
+        const result = await model.doGenerate({ prompt: TEST_PROMPT });
+
+        expect(result.content).toEqual([
+          { type: 'text', text: '<think>Let me think.</think>Hello!' },
+        ]);
+      });
+
+      it('should extract reasoning tags when enabled', async () => {
+        prepareContentResponse('<think>Let me think.</think>\n\nHello!');
+
+        const reasoningModel = new OllamaResponsesLanguageModel(
+          TEST_MODEL_ID,
+          { extractReasoning: true },
+          testConfig,
+        );
+
+        const result = await reasoningModel.doGenerate({ prompt: TEST_PROMPT });
+
+        expect(result.content).toEqual([
+          { type: 'text', text: 'Hello!' },
+          { type: 'reasoning', text: 'Let me think.' },
+        ]);
+      });
+
+      it('should use a custom tag name from provider options', async () => {
+        prepareContentResponse('Plan.</reasoning>Done.');
+
+        const result = await model.doGenerate({
+          prompt: TEST_PROMPT,
+          providerOptions: {
+            ollama: {
+              extractReasoning: {
+                tagName: 'reasoning',
+                startWithReasoning: true,
+              },
+            },
+          },
+        });
+
+        expect(result.content).toEqual([
+          { type: 'text', text: 'Done.' },
+          { type: 'reasoning', text: 'Plan.' },
+        ]);
+      });
+    });
+
+    describe('Error Handling', () => {
+      it('should handle API errors', async () => {
+        prepareErrorResponse(server);
+
+        await expect(
+          model.doGenerate({
+            prompt: TEST_PROMPT,
+          })
+        ).rejects.toThrow();
+      });
+    });
+
+    describe('Retries', () => {
+      const retryModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+        ...testConfig,
+        retry: new OllamaRetryPolicy({ initialDelay: 1 }),
+      });
+
+      it('should retry transient failures', async () => {
+        prepareJsonResponse(server);
+        server.urls['http://127.0.0.1:11434/api/chat'].responses = [
+          { type: 'error', status: 503, body: { error: 'server busy' } },
+          { type: 'error', status: 500, body: { error: 'unexpected EOF' } },
+        ];
+
+        const result = await retryModel.doGenerate({ prompt: TEST_PROMPT });
+
+        expect(result.content).toEqual([
+          { type: 'text', text: 'Hello, how can I help you?' },
+        ]);
+        expect(server.calls).toHaveLength(3);
+      });
+
+      it('should retry network errors without a status code', async () => {
+        prepareJsonResponse(server);
+        let failures = 1;
+        const networkErrorModel = new OllamaResponsesLanguageModel(
+          TEST_MODEL_ID,
+          {},
+          {
+            ...testConfig,
+            retry: new OllamaRetryPolicy({ initialDelay: 1 }),
+            fetch: (input, init) => {
+              if (failures-- > 0) {
+                return Promise.reject(
+                  Object.assign(new TypeError('fetch failed'), {
+                    cause: new Error('connect ECONNREFUSED 127.0.0.1:11434'),
+                  }),
+                );
+              }
+              return globalThis.fetch(input, init);
+            },
+          },
+        );
+
+        const result = await networkErrorModel.doGenerate({ prompt: TEST_PROMPT });
+
+        expect(result.content).toEqual([
+          { type: 'text', text: 'Hello, how can I help you?' },
+        ]);
+        expect(server.calls).toHaveLength(1);
+      });
+
+      it('should not retry classified errors that are not retryable', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'error',
+          status: 500,
+          body: { error: 'the input length exceeds the context length' },
+        };
+
+        await expect(
+          retryModel.doGenerate({ prompt: TEST_PROMPT }),
+        ).rejects.toThrow('the input length exceeds the context length');
+        expect(server.calls).toHaveLength(1);
+      });
+
+      it('should give up after the maximum number of attempts', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'error',
+          status: 503,
+          body: { error: 'server busy' },
+        };
+
+        await expect(
+          retryModel.doGenerate({ prompt: TEST_PROMPT }),
+        ).rejects.toThrow('server busy');
+        expect(server.calls).toHaveLength(3);
+      });
+    });
+  });
+
+  describe('doStream', () => {
+    describe('Basic Streaming', () => {
+      it('should handle basic streaming', async () => {
+        prepareStreamResponse(server);
+
+        const result = await model.doStream({
+          prompt: TEST_PROMPT,
+        });
+
+        expect(result.response?.headers).toBeDefined();
+        expect(result.request?.body).toBeDefined();
+        expect(result.stream).toBeDefined();
+      });
+
+      it('should expose metrics in the finish part', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"Hi"}}\n`,
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""},"total_duration":2000000000,"load_duration":10000000,"prompt_eval_count":5,"prompt_eval_duration":250000000,"eval_count":8,"eval_duration":400000000}\n`,
+          ],
+        };
+
+        const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+        const finish = parts.find(part => part.type === 'finish');
+
+        expect(finish?.providerMetadata).toStrictEqual({
+          ollama: {
+            responseId: null,
+            totalDuration: 2000000000,
+            loadDuration: 10000000,
+            promptEvalCount: 5,
+            promptEvalDuration: 250000000,
+            evalCount: 8,
+            evalDuration: 400000000,
+            promptTokensPerSecond: 20,
+            generationTokensPerSecond: 20,
+            coldLoad: false,
+          },
+        });
+      });
+
+      it('should handle stream with warnings', async () => {
+        prepareStreamResponse(server);
+
+        const result = await model.doStream({
+          prompt: TEST_PROMPT,
+          topK: 50,
+        });
+
+        expect(result.stream).toBeDefined();
+      });
+    });
+
+    describe('Tool Call Recovery', () => {
+      const streamTextDeltas = async (contents: string[]) => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [...contents, ''].map(
+            (content, index) =>
+              `${JSON.stringify({
+                model: TEST_MODEL_ID,
+                created_at: '2024-01-01T00:00:00.000Z',
+                done: index === contents.length,
+                ...(index === contents.length && { done_reason: 'stop' }),
+                message: { role: 'assistant', content },
+              })}\n`,
+          ),
+        };
+
+        const { stream } = await model.doStream({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          providerOptions: { ollama: { toolCallRecovery: true } },
+        });
+        const parts = await convertReadableStreamToArray(stream);
+
+        return parts
+          .filter(part => part.type === 'text-delta')
+          .map(part => part.type === 'text-delta' && part.delta);
+      };
+
+      it('should keep streaming ordinary code blocks', async () => {
+        expect(
+          await streamTextDeltas([
+            'Here:\n```py',
+            'thon\nprint(1)\n',
+            '```\nDone.',
+          ]),
+        ).toEqual(['Here:\n```py', 'thon\nprint(1)\n', '```\nDone.']);
+      });
+
+      it('should release JSON fences that hold no tool call when they close', async () => {
+        expect(
+          await streamTextDeltas([
+            'Example:\n```json\n{"a":',
+            '1}\n```',
+            ' More text.',
+          ]),
+        ).toEqual(['Example:\n', '```json\n{"a":1}\n```', ' More text.']);
+      });
+
+      it('should keep streaming text after a recovered fenced tool call', async () => {
+        expect(
+          await streamTextDeltas([
+            'Checking.\n```json\n{"name":"weather",',
+            '"arguments":{"location":"Berlin"}}\n```',
+            ' Done.',
+          ]),
+        ).toEqual(['Checking.\n', ' Done.']);
+      });
+
+      it('should recover tool calls split across chunks', async () => {
+        const contents = [
+          'Checking. <tool',
+          '_call>{"name":"weather",',
+          '"arguments":{"location":"Berlin"}}</tool_call>',
+          '',
+        ];
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: contents.map(
+            (content, index) =>
+              `${JSON.stringify({
+                model: TEST_MODEL_ID,
+                created_at: '2024-01-01T00:00:00.000Z',
+                done: index === contents.length - 1,
+                ...(index === contents.length - 1 && { done_reason: 'stop' }),
+                message: { role: 'assistant', content },
+              })}\n`,
+          ),
+        };
+
+        const { stream } = await model.doStream({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          providerOptions: { ollama: { toolCallRecovery: true } },
+        });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(
+          parts
+            .filter(part => part.type === 'text-delta')
+            .map(part => part.type === 'text-delta' && part.delta)
+            .join(''),
+        ).toBe('Checking. ');
+        expect(parts.find(part => part.type === 'tool-call')).toEqual({
+          type: 'tool-call',
+          toolCallId: expect.any(String),
+          toolName: 'weather',
+          input: '{"location":"Berlin"}',
+        });
+        expect(parts.find(part => part.type === 'finish')).toMatchObject({
+          finishReason: { unified: 'tool-calls', raw: 'tool_calls' },
+        });
+      });
+    });
+
+    describe('Tool Input Validation', () => {
+      it('should validate streamed tool calls', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"","tool_calls":[{"id":"call_1","function":{"name":"weather","arguments":{"location":42}}}]}}\n`,
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""}}\n`,
+          ],
+        };
+
+        const { stream } = await model.doStream({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          providerOptions: { ollama: { toolInputValidation: true } },
+        });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(parts.find(part => part.type === 'tool-call')).toEqual({
+          type: 'tool-call',
+          toolCallId: 'call_1',
+          toolName: 'weather',
+          input: '{"location":"42"}',
+        });
+        const finishPart = parts.find(part => part.type === 'finish');
+        expect(
+          finishPart?.type === 'finish' &&
+            finishPart.providerMetadata?.ollama.toolInputValidation,
+        ).toEqual([
+          { toolCallId: 'call_1', toolName: 'weather', status: 'coerced', errors: [] },
+        ]);
+      });
+
+      it('should send the repair request through the concurrency limiter', async () => {
+        const concurrency = new OllamaConcurrencyLimiter({
+          maxRequestsPerModel: 1,
+        });
+        const acquire = vi.spyOn(concurrency, 'acquire');
+        const limitedModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+          ...testConfig,
+          concurrency,
+        });
+
+        server.urls['http://127.0.0.1:11434/api/chat'].responses = [
+          {
+            type: 'stream-chunks',
+            chunks: [
+              `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"","tool_calls":[{"id":"call_1","function":{"name":"weather","arguments":{}}}]}}\n`,
+              `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""}}\n`,
+            ],
+          },
+          {
+            type: 'json-value',
+            body: {
+              model: TEST_MODEL_ID,
+              created_at: '2024-01-01T00:00:00.000Z',
+              done: true,
+              done_reason: 'stop',
+              message: {
+                role: 'assistant',
+                content: '',
+                tool_calls: [
+                  { function: { name: 'weather', arguments: { location: 'Oslo' } } },
+                ],
+              },
+            },
+          },
+        ];
+
+        const { stream } = await limitedModel.doStream({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          providerOptions: { ollama: { toolInputValidation: { repair: true } } },
+        });
+        const parts = await convertReadableStreamToArray(stream);
+
+        // the stream has released its slot before the repair request:
+        expect(acquire).toHaveBeenCalledTimes(2);
+        expect(parts.find(part => part.type === 'tool-call')).toEqual({
+          type: 'tool-call',
+          toolCallId: 'call_1',
+          toolName: 'weather',
+          input: '{"location":"Oslo"}',
+        });
+      });
+    });
+
+    describe('Tool Choice', () => {
+      it('should stream the constrained output as a tool call', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"{\\"name\\":\\"weather\\","}}\n`,
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"\\"arguments\\":{\\"location\\":\\"Oslo\\"}}"}}\n`,
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""}}\n`,
+          ],
+        };
+
+        const { stream } = await model.doStream({
+          prompt: TEST_PROMPT,
+          tools: TEST_TOOLS,
+          toolChoice: { type: 'required' },
+        });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(parts.some(part => part.type === 'text-delta')).toBe(false);
+        expect(parts.find(part => part.type === 'tool-call')).toEqual({
+          type: 'tool-call',
+          toolCallId: expect.any(String),
+          toolName: 'weather',
+          input: '{"location":"Oslo"}',
+        });
+      });
+    });
+
+    describe('Reasoning Extraction', () => {
+      it('should split reasoning tags across chunks into reasoning parts', async () => {
+        const contents = ['<thi', 'nk>Let me', ' think.</th', 'ink>\n\nHel', 'lo!', ''];
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: contents.map(
+            (content, index) =>
+              `${JSON.stringify({
+                model: TEST_MODEL_ID,
+                created_at: '2024-01-01T00:00:00.000Z',
+                done: index === contents.length - 1,
+                ...(index === contents.length - 1 && { done_reason: 'stop' }),
+                message: { role: 'assistant', content },
+              })}\n`,
+          ),
+        };
+
+        const reasoningModel = new OllamaResponsesLanguageModel(
+          TEST_MODEL_ID,
+          { extractReasoning: { tagName: 'think' } },
+          testConfig,
+        );
+
+        const { stream } = await reasoningModel.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(
+          parts
+            .filter(part => part.type !== 'response-metadata' && part.type !== 'finish')
+            .map(part => ({ type: part.type, delta: 'delta' in part ? part.delta : undefined })),
+        ).toEqual([
+          { type: 'reasoning-start', delta: undefined },
+          { type: 'reasoning-delta', delta: 'Let me' },
+          { type: 'reasoning-delta', delta: ' think.' },
+          { type: 'reasoning-end', delta: undefined },
+          { type: 'text-start', delta: undefined },
+          { type: 'text-delta', delta: 'Hel' },
+          { type: 'text-delta', delta: 'lo!' },
+          { type: 'text-end', delta: undefined },
+        ]);
+      });
+
+      it('should emit held back partial tags as text when the stream ends', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"a <"}}\n`,
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""}}\n`,
+          ],
+        };
+
+        const { stream } = await model.doStream({
+          prompt: TEST_PROMPT,
+          providerOptions: { ollama: { extractReasoning: true } },
+        });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(
+          parts
+            .filter(part => part.type === 'text-delta')
+            .map(part => part.type === 'text-delta' && part.delta)
+            .join(''),
+        ).toBe('a <');
+      });
+    });
+
+    describe('Error Handling', () => {
+      const contentChunk = `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"Hello"}}\n`;
+
+      it('should emit classified errors that the server sends mid-stream', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [
+            contentChunk,
+            '{"error":"llama runner process has terminated: exit status 2"}\n',
+          ],
+        };
+
+        const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        const errorPart = parts.find(part => part.type === 'error');
+        const error = errorPart?.type === 'error' ? errorPart.error : undefined;
+        expect(OllamaModelLoadError.isInstance(error)).toBe(true);
+        expect(error).toMatchObject({
+          message: 'llama runner process has terminated: exit status 2',
+          isRetryable: true,
+        });
+
+        expect(parts.map(part => part.type)).toEqual([
+          'response-metadata',
+          'text-start',
+          'text-delta',
+          'error',
+          'text-end',
+          'finish',
+        ]);
+        expect(parts[parts.length - 1]).toMatchObject({
+          type: 'finish',
+          finishReason: { unified: 'error', raw: undefined },
+        });
+      });
+
+      it('should keep the error finish reason when a done chunk follows an error', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"","tool_calls":[{"function":{"name":"weather","arguments":{"city":"Paris"}}}]}}\n`,
+            '{"error":"an error was encountered while running the model"}\n',
+            `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""}}\n`,
+          ],
+        };
+
+        const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(parts.some(part => part.type === 'tool-call')).toBe(true);
+        expect(parts[parts.length - 1]).toMatchObject({
+          type: 'finish',
+          finishReason: { unified: 'error', raw: undefined },
+        });
+      });
+
+      it('should emit an error for truncated trailing data', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [contentChunk, `{"model":"${TEST_MODEL_ID}","created_at":"2024-`],
+        };
+
+        const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        const errorPart = parts.find(part => part.type === 'error');
+        const error = errorPart?.type === 'error' ? errorPart.error : undefined;
+        expect(JSONParseError.isInstance(error)).toBe(true);
+        expect(error).toMatchObject({
+          text: `{"model":"${TEST_MODEL_ID}","created_at":"2024-`,
+        });
+        expect(parts[parts.length - 1]).toMatchObject({
+          type: 'finish',
+          finishReason: { unified: 'error', raw: undefined },
+        });
+      });
+
+      it('should emit an error for lines that do not match the response schema', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [contentChunk, '{"unexpected":true}\n'],
+        };
+
+        const { stream } = await model.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        const errorPart = parts.find(part => part.type === 'error');
+        const error = errorPart?.type === 'error' ? errorPart.error : undefined;
+        expect(TypeValidationError.isInstance(error)).toBe(true);
+        expect(error).toMatchObject({ value: { unexpected: true } });
+      });
+    });
+
+    describe('Retries', () => {
+      const retryModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+        ...testConfig,
+        retry: new OllamaRetryPolicy({ initialDelay: 1 }),
+      });
+
+      const contentChunk = `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"Hello"}}\n`;
+      const doneChunk = `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""}}\n`;
+      const crashChunk =
+        '{"error":"llama runner process has terminated: exit status 2"}\n';
+
+      it('should retry a stream that fails before its first chunk', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].responses = [
+          { type: 'stream-chunks', chunks: [crashChunk] },
+        ];
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [contentChunk, doneChunk],
+        };
+
+        const { stream } = await retryModel.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(parts.some(part => part.type === 'error')).toBe(false);
+        expect(
+          parts.filter(part => part.type === 'text-delta').map(part => part.type === 'text-delta' && part.delta),
+        ).toEqual(['Hello', '']);
+        expect(server.calls).toHaveLength(2);
+      });
+
+      it('should not retry a stream after its first chunk', async () => {
+        server.urls['http://127.0.0.1:11434/api/chat'].response = {
+          type: 'stream-chunks',
+          chunks: [contentChunk, crashChunk],
+        };
+
+        const { stream } = await retryModel.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        const errorPart = parts.find(part => part.type === 'error');
+        expect(
+          errorPart?.type === 'error' &&
+            OllamaModelLoadError.isInstance(errorPart.error),
+        ).toBe(true);
+        expect(server.calls).toHaveLength(1);
+      });
+    });
+
+    describe('Stream Timeouts', () => {
+      const contentChunk = `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":false,"message":{"role":"assistant","content":"Hello"}}\n`;
+      const doneChunk = `{"model":"${TEST_MODEL_ID}","created_at":"2024-01-01T00:00:00.000Z","done":true,"done_reason":"stop","message":{"role":"assistant","content":""}}\n`;
+
+      // responds after `delay` and keeps the stream open unless `close` is set:
+      const createStalledFetch =
+        (chunks: string[], { delay = 0, close = false } = {}) =>
+        (_url: any, init?: RequestInit) =>
+          new Promise<Response>((resolve, reject) => {
+            const timeoutId = setTimeout(() => {
+              resolve(
+                new Response(
+                  new ReadableStream({
+                    start(controller) {
+                      for (const chunk of chunks) {
+                        controller.enqueue(new TextEncoder().encode(chunk));
+                      }
+                      if (close) {
+                        controller.close();
+                      }
+                    },
+                  }),
+                ),
+              );
+            }, delay);
+            init?.signal?.addEventListener('abort', () => {
+              clearTimeout(timeoutId);
+              reject(init.signal!.reason);
+            });
+          });
+
+      it('should emit an idle timeout error when the stream stalls', async () => {
+        const timeoutModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+          ...testConfig,
+          fetch: createStalledFetch([contentChunk]),
+          streamTimeouts: { idleTimeout: 20 },
+        });
+
+        const { stream } = await timeoutModel.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        const errorPart = parts.find(part => part.type === 'error');
+        const error = errorPart?.type === 'error' ? errorPart.error : undefined;
+        expect(OllamaStreamTimeoutError.isInstance(error)).toBe(true);
+        expect(error).toMatchObject({ timeoutType: 'idle', isRetryable: true });
+        expect(parts[parts.length - 1]).toMatchObject({
+          type: 'finish',
+          finishReason: { unified: 'error', raw: undefined },
+        });
+      });
+
+      it('should reject when no response arrives before the first chunk timeout', async () => {
+        const timeoutModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+          ...testConfig,
+          fetch: createStalledFetch([contentChunk, doneChunk], { delay: 1000 }),
+        });
+
+        await expect(
+          timeoutModel.doStream({
+            prompt: TEST_PROMPT,
+            providerOptions: {
+              ollama: {
+                streamTimeouts: { firstChunkTimeout: 20, loadTimeout: 0 },
+              },
+            },
+          }),
+        ).rejects.toSatisfy(
+          error =>
+            OllamaStreamTimeoutError.isInstance(error) &&
+            error.timeoutType === 'first-chunk',
+        );
+      });
+
+      it('should allow a cold start before any load time was reported', async () => {
+        const timeoutModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+          ...testConfig,
+          fetch: createStalledFetch([contentChunk, doneChunk], {
+            delay: 50,
+            close: true,
+          }),
+          streamTimeouts: { firstChunkTimeout: 20, loadTimeout: 500 },
+          modelLoadTimes: new OllamaModelLoadTimes(),
+        });
+
+        const { stream } = await timeoutModel.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(parts.some(part => part.type === 'error')).toBe(false);
+      });
+
+      it('should not count warm load times as cold starts', async () => {
+        const modelLoadTimes = new OllamaModelLoadTimes();
+        modelLoadTimes.record(TEST_MODEL_ID, 5_000_000);
+
+        expect(modelLoadTimes.get(TEST_MODEL_ID)).toBeUndefined();
+      });
+
+      it('should extend the first chunk timeout by the reported model load time', async () => {
+        const modelLoadTimes = new OllamaModelLoadTimes();
+        modelLoadTimes.record(TEST_MODEL_ID, 500_000_000);
+
+        const timeoutModel = new OllamaResponsesLanguageModel(TEST_MODEL_ID, {}, {
+          ...testConfig,
+          fetch: createStalledFetch([contentChunk, doneChunk], {
+            delay: 50,
+            close: true,
+          }),
+          streamTimeouts: { firstChunkTimeout: 20 },
+          modelLoadTimes,
+        });
+
+        const { stream } = await timeoutModel.doStream({ prompt: TEST_PROMPT });
+        const parts = await convertReadableStreamToArray(stream);
+
+        expect(parts.some(part => part.type === 'error')).toBe(false);
+        expect(parts[parts.length - 1]).toMatchObject({
+          type: 'finish',
+          finishReason: { unified: 'stop', raw: 'stop' },
+        });
       });
     });
   });
@@ -7,6 +7,7 @@ import {
   LanguageModelV3StreamPart,
   LanguageModelV3Usage,
   SharedV3Headers,
+  SharedV3ProviderMetadata,
   SharedV3Warning,
 } from "@ai-sdk/provider";
 import {
@@ -14,10 +15,20 @@ import {
   createJsonResponseHandler,
   postJsonToApi,
 } from "@ai-sdk/provider-utils";
+import { convertOllamaImagesToBase64 } from "../adaptors/convert-ollama-images-to-base64";
 import { createNdjsonStreamResponseHandler } from "../common/ndjson-stream-handler";
+import {
+  getQueueMetadata,
+  OllamaQueueOptions,
+  withConcurrencyLimit,
+  withStreamConcurrencyLimit,
+} from "../common/ollama-concurrency-limiter";
 import { OllamaConfig } from "../common/ollama-config";
+import { withRetry, withStreamRetry } from "../common/ollama-retry";
+import { OllamaStreamTimeout } from "../common/ollama-stream-timeout";
 import { ollamaFailedResponseHandler } from "../completion/ollama-error";
-import { OllamaChatModelId } from "../ollama-chat-settings";
+import { withAutoPull } from "../management/ollama-auto-pull";
+import { OllamaChatModelId, OllamaProviderOptions } from "../ollama-chat-settings";
 import {
   OllamaResponseProcessor,
   OllamaResponse,
@@ -25,13 +36,18 @@ import {
 } from "./ollama-responses-processor";
 import {
   OllamaRequestBuilder,
-  OllamaResponsesProviderOptions
+  OllamaResponsesProviderOptions,
+  RequestBuilderResult
 } from "./ollama-responses-request-builder";
 import { OllamaStreamProcessor } from "./ollama-responses-stream-processor";
+import { createToolCallSchema } from "./ollama-responses-prepare-tools";
+import { recoverToolCalls } from "./ollama-tool-call-recovery";
+import { ToolCallRepairFunction } from "./ollama-tool-input-validation";
 
 export class OllamaResponsesLanguageModel implements LanguageModelV3 {
   readonly specificationVersion = "v3" as const;
   readonly modelId: OllamaChatModelId;
+  readonly settings: OllamaProviderOptions;
   readonly provider: string;
   readonly defaultObjectGenerationMode = undefined;
   readonly supportsImageUrls = true;
@@ -40,11 +56,16 @@ export class OllamaResponsesLanguageModel implements LanguageModelV3 {
   private readonly requestBuilder: OllamaRequestBuilder;
   private readonly responseProcessor: OllamaResponseProcessor;
 
-  constructor(modelId: OllamaChatModelId, config: OllamaConfig) {
+  constructor(
+    modelId: OllamaChatModelId,
+    settings: OllamaProviderOptions,
+    config: OllamaConfig,
+  ) {
     this.modelId = modelId;
+    this.settings = settings;
     this.config = config;
     this.provider = config.provider;
-    this.requestBuilder = new OllamaRequestBuilder();
+    this.requestBuilder = new OllamaRequestBuilder(settings);
     this.responseProcessor = new OllamaResponseProcessor(config);
   }
 
@@ -60,6 +81,7 @@ export class OllamaResponsesLanguageModel implements LanguageModelV3 {
     content: Array<LanguageModelV3Content>;
     finishReason: LanguageModelV3FinishReason;
     usage: LanguageModelV3Usage;
+    providerMetadata?: SharedV3ProviderMetadata;
     warnings: Array<SharedV3Warning>;
     request?: { body?: unknown };
     response?: LanguageModelV3ResponseMetadata & {
@@ -67,29 +89,73 @@ export class OllamaResponsesLanguageModel implements LanguageModelV3 {
       body?: unknown;
     };
   }> {
-    const { args: body, warnings } = await this.prepareRequest(options);
+    const {
+      args: body,
+      warnings,
+      reasoningExtraction,
+      toolCallRecovery,
+      toolInputValidation,
+      queue,
+    } = await this.prepareRequest(options);
+
+    const url = this.config.url({
+      path: "/chat",
+      modelId: this.modelId,
+    });
 
     const {
       responseHeaders,
       value: response,
       rawValue: rawResponse,
-    } = await postJsonToApi({
-      url: this.config.url({
-        path: "/chat",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: { ...body, stream: false },
-      failedResponseHandler: ollamaFailedResponseHandler as any,
-      successfulResponseHandler: createJsonResponseHandler(baseOllamaResponseSchema),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: () =>
+                postJsonToApi({
+                  url,
+                  headers: combineHeaders(this.config.headers(), options.headers),
+                  body: { ...body, stream: false },
+                  failedResponseHandler: ollamaFailedResponseHandler as any,
+                  successfulResponseHandler: createJsonResponseHandler(baseOllamaResponseSchema),
+                  abortSignal: options.abortSignal,
+                  fetch: fetch ?? this.config.fetch,
+                }),
+            }),
+        }),
     });
 
-    const processedResponse = this.responseProcessor.processGenerateResponse(response as OllamaResponse);
+    const processedResponse = await this.responseProcessor.processGenerateResponse(
+      response as OllamaResponse,
+      {
+        reasoningExtraction,
+        toolCallRecovery,
+        toolInputValidation,
+        repairToolCall: this.createToolCallRepair(body, queue, options),
+      },
+    );
 
     return {
       ...processedResponse,
+      warnings: [...warnings, ...processedResponse.warnings],
+      providerMetadata: {
+        ollama: {
+          ...processedResponse.providerMetadata.ollama,
+          ...getQueueMetadata(queueWait),
+        },
+      },
       request: { body: JSON.stringify(body) },
       response: {
         modelId: this.modelId,
@@ -97,7 +163,6 @@ export class OllamaResponsesLanguageModel implements LanguageModelV3 {
         headers: responseHeaders,
         body: rawResponse,
       },
-      warnings,
     };
   }
 
@@ -112,22 +177,78 @@ export class OllamaResponsesLanguageModel implements LanguageModelV3 {
       body?: unknown;
     };
   }> {
-    const { args: body, warnings } = await this.prepareRequest(options);
+    const {
+      args: body,
+      warnings,
+      reasoningExtraction,
+      toolCallRecovery,
+      toolInputValidation,
+      streamTimeouts,
+      queue,
+    } = await this.prepareRequest(options);
 
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url: this.config.url({
-        path: "/chat",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: { ...body, stream: true },
-      failedResponseHandler: ollamaFailedResponseHandler as any,
-      successfulResponseHandler: createNdjsonStreamResponseHandler(baseOllamaResponseSchema),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
+    const url = this.config.url({
+      path: "/chat",
+      modelId: this.modelId,
     });
 
-    const streamProcessor = new OllamaStreamProcessor(this.config);
+    const {
+      responseHeaders,
+      value: response,
+      queueWait,
+    } = await withAutoPull({
+      autoPull: this.config.autoPull,
+      modelId: this.modelId,
+      request: fetch =>
+        withStreamConcurrencyLimit({
+          limiter: this.config.concurrency,
+          modelId: this.modelId,
+          queue,
+          abortSignal: options.abortSignal,
+          url,
+          requestBodyValues: body,
+          request: () =>
+            withStreamRetry({
+              retry: this.config.retry,
+              abortSignal: options.abortSignal,
+              request: () => {
+                const streamTimeout = new OllamaStreamTimeout({
+                  settings: { ...this.config.streamTimeouts, ...streamTimeouts },
+                  loadTime: this.config.modelLoadTimes?.get(this.modelId),
+                  url,
+                  requestBodyValues: body,
+                  abortSignal: options.abortSignal,
+                });
+
+                return streamTimeout.run(() =>
+                  postJsonToApi({
+                    url,
+                    headers: combineHeaders(this.config.headers(), options.headers),
+                    body: { ...body, stream: true },
+                    failedResponseHandler: ollamaFailedResponseHandler as any,
+                    successfulResponseHandler: createNdjsonStreamResponseHandler(
+                      baseOllamaResponseSchema,
+                      streamTimeout,
+                    ),
+                    abortSignal: streamTimeout.abortSignal,
+                    fetch: fetch ?? this.config.fetch,
+                  }),
+                );
+              },
+            }),
+        }),
+    });
+
+    const streamProcessor = new OllamaStreamProcessor(
+      this.config,
+      {
+        reasoningExtraction,
+        toolCallRecovery,
+        toolInputValidation,
+        repairToolCall: this.createToolCallRepair(body, queue, options),
+      },
+      queueWait,
+    );
 
     return {
       stream: response.pipeThrough(
@@ -139,11 +260,103 @@ export class OllamaResponsesLanguageModel implements LanguageModelV3 {
     };
   }
 
+  /**
+   * Creates a function that asks the model once to repair an invalid tool
+   * call. The repaired call is constrained to the tool's input schema. The
+   * repair runs after the response has been consumed, so a streaming call has
+   * already released its concurrency slot.
+   */
+  private createToolCallRepair(
+    body: RequestBuilderResult["args"],
+    queue: OllamaQueueOptions | undefined,
+    options: LanguageModelV3CallOptions,
+  ): ToolCallRepairFunction {
+    return async ({ toolCallId, toolName, input, errors, schema }) => {
+      const url = this.config.url({
+        path: "/chat",
+        modelId: this.modelId,
+      });
+
+      const repairBody = {
+        ...body,
+        messages: [
+          ...body.messages,
+          {
+            role: "assistant" as const,
+            content: "",
+            tool_calls: [
+              {
+                type: "function" as const,
+                id: toolCallId,
+                function: { name: toolName, arguments: input as object },
+              },
+            ],
+          },
+          {
+            role: "user" as const,
+            content: `The arguments of the ${toolName} tool call do not match its input schema: ${errors.join(" ")} Reply with the corrected tool call.`,
+          },
+        ],
+        format: createToolCallSchema(toolName, schema),
+        stream: false,
+      };
+
+      const { value: response } = await withConcurrencyLimit({
+        limiter: this.config.concurrency,
+        modelId: this.modelId,
+        queue,
+        abortSignal: options.abortSignal,
+        url,
+        requestBodyValues: repairBody,
+        request: () =>
+          withRetry({
+            retry: this.config.retry,
+            abortSignal: options.abortSignal,
+            request: () =>
+              postJsonToApi({
+                url,
+                headers: combineHeaders(this.config.headers(), options.headers),
+                body: repairBody,
+                failedResponseHandler: ollamaFailedResponseHandler,
+                successfulResponseHandler: createJsonResponseHandler(baseOllamaResponseSchema),
+                abortSignal: options.abortSignal,
+                fetch: this.config.fetch,
+              }),
+          }),
+      });
+
+      const toolCall =
+        response.message.tool_calls?.[0]?.function ??
+        recoverToolCalls(response.message.content, {
+          formats: ["json"],
+          toolNames: [toolName],
+        })?.toolCalls[0];
+
+      if (toolCall == null) {
+        return undefined;
+      }
+
+      return "arguments" in toolCall ? toolCall.arguments : toolCall.input;
+    };
+  }
+
   private async prepareRequest(options: LanguageModelV3CallOptions) {
-    return await this.requestBuilder.buildRequest({
+    const request = await this.requestBuilder.buildRequest({
       modelId: this.modelId,
       ...options,
     });
+
+    return {
+      ...request,
+      args: {
+        ...request.args,
+        messages: await convertOllamaImagesToBase64(request.args.messages, {
+          ...this.config.imageDownload,
+          fetch: this.config.fetch,
+          abortSignal: options.abortSignal,
+        }),
+      },
+    };
   }
 }
 
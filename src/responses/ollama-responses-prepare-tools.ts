@@ -1,4 +1,5 @@
 import {
+  JSONSchema7,
   LanguageModelV2CallOptions,
   SharedV3Warning,
   UnsupportedFunctionalityError
@@ -13,12 +14,11 @@ export function prepareResponsesTools({
   toolChoice?: LanguageModelV2CallOptions["toolChoice"];
 }): {
   tools?: Array<OllamaResponsesTool>;
-  toolChoice?:
-    | "auto"
-    | "none"
-    | "required"
-    | { type: "web_search_preview" }
-    | { type: "function"; name: string };
+  /**
+   * JSON schema that constrains the output to a tool call. Set when the tool
+   * choice requires a tool call, since Ollama has no `tool_choice` parameter.
+   */
+  toolCallFormat?: JSONSchema7;
   toolWarnings: SharedV3Warning[];
 } {
 
@@ -28,7 +28,7 @@ export function prepareResponsesTools({
   const toolWarnings: SharedV3Warning[] = [];
 
   if (tools == null) {
-    return { tools: undefined, toolChoice: undefined, toolWarnings };
+    return { tools: undefined, toolWarnings };
   }
 
   const ollamaTools: Array<OllamaResponsesTool> = [];
@@ -77,25 +77,43 @@ export function prepareResponsesTools({
   }
 
   if (toolChoice == null) {
-    return { tools: ollamaTools, toolChoice: undefined, toolWarnings };
+    return { tools: ollamaTools, toolWarnings };
   }
 
   const type = toolChoice.type;
 
   switch (type) {
     case "auto":
+      return { tools: ollamaTools, toolWarnings };
     case "none":
+      // Ollama has no tool choice parameter, so the tools are not sent:
+      return { tools: undefined, toolWarnings };
     case "required":
-      return { tools: ollamaTools, toolChoice: type, toolWarnings };
-    case "tool":
       return {
         tools: ollamaTools,
-        toolChoice:
-          toolChoice.toolName == "web_search_preview"
-            ? { type: "web_search_preview" }
-            : { type: "function", name: toolChoice.toolName },
+        toolCallFormat: createToolCallFormat(ollamaTools),
         toolWarnings,
       };
+    case "tool": {
+      const selectedTools = ollamaTools.filter(
+        tool =>
+          tool.type === "function" && tool.function.name === toolChoice.toolName,
+      );
+
+      if (selectedTools.length === 0) {
+        toolWarnings.push({
+          type: "other",
+          message: `The tool choice "${toolChoice.toolName}" does not match any function tool and is ignored.`,
+        });
+        return { tools: ollamaTools, toolWarnings };
+      }
+
+      return {
+        tools: selectedTools,
+        toolCallFormat: createToolCallFormat(selectedTools),
+        toolWarnings,
+      };
+    }
     default: {
       const _exhaustiveCheck: never = type;
       throw new UnsupportedFunctionalityError({
@@ -104,3 +122,49 @@ export function prepareResponsesTools({
     }
   }
 }
+
+/**
+ * Creates a JSON schema for a `{ "name": ..., "arguments": ... }` tool call
+ * object.
+ */
+export function createToolCallSchema(
+  toolName: string,
+  inputSchema: JSONSchema7,
+): JSONSchema7 {
+  return {
+    type: "object",
+    properties: {
+      name: { type: "string", enum: [toolName] },
+      arguments: inputSchema,
+    },
+    required: ["name", "arguments"],
+  };
+}
+
+/**
+ * Creates a JSON schema for a tool call object that matches one of the
+ * function tools.
+ */
+function createToolCallFormat(
+  tools: Array<OllamaResponsesTool>,
+): JSONSchema7 | undefined {
+  const toolCallSchemas: JSONSchema7[] = [];
+
+  for (const tool of tools) {
+    if (tool.type !== "function") {
+      continue;
+    }
+
+    toolCallSchemas.push(
+      createToolCallSchema(tool.function.name, tool.function.parameters),
+    );
+  }
+
+  if (toolCallSchemas.length === 0) {
+    return undefined;
+  }
+
+  return toolCallSchemas.length === 1
+    ? toolCallSchemas[0]
+    : { anyOf: toolCallSchemas };
+}
@@ -1,13 +1,29 @@
 import {
+  JSONObject,
   LanguageModelV3Content,
   LanguageModelV3FinishReason,
   LanguageModelV3Usage,
   SharedV3ProviderMetadata,
+  SharedV3Warning,
 } from "@ai-sdk/provider";
 import { generateId } from "@ai-sdk/provider-utils";
 import { z } from "zod/v4";
 import { mapOllamaFinishReason } from "../adaptors/map-ollama-finish-reason";
+import { getOllamaMetrics } from "../common/get-ollama-metrics";
 import { OllamaConfig } from "../common/ollama-config";
+import {
+  extractReasoning,
+  ReasoningExtractionSettings,
+} from "./ollama-reasoning-extractor";
+import {
+  recoverToolCalls,
+  ToolCallRecoverySettings,
+} from "./ollama-tool-call-recovery";
+import {
+  ToolCallRepairFunction,
+  ToolInputValidationSettings,
+  validateToolCall,
+} from "./ollama-tool-input-validation";
 
 export const baseOllamaResponseSchema = z.object({
   model: z.string(),
@@ -42,37 +58,81 @@ export const baseOllamaResponseSchema = z.object({
 
 export type OllamaResponse = z.infer<typeof baseOllamaResponseSchema>;
 
+/**
+ * Opt-in post-processing of the model output for models that write reasoning
+ * or tool calls into their text content.
+ */
+export interface OllamaResponseProcessingOptions {
+  reasoningExtraction?: ReasoningExtractionSettings;
+  toolCallRecovery?: ToolCallRecoverySettings;
+  toolInputValidation?: ToolInputValidationSettings;
+  repairToolCall?: ToolCallRepairFunction;
+}
+
 export class OllamaResponseProcessor {
   constructor(private config: OllamaConfig) {}
 
-  processGenerateResponse(response: OllamaResponse): {
+  async processGenerateResponse(
+    response: OllamaResponse,
+    processingOptions: OllamaResponseProcessingOptions = {},
+  ): Promise<{
     content: LanguageModelV3Content[];
     finishReason: LanguageModelV3FinishReason;
     usage: LanguageModelV3Usage;
     providerMetadata: SharedV3ProviderMetadata;
-  } {
-    const content = this.extractContent(response);
+    warnings: SharedV3Warning[];
+  }> {
+    const content = this.extractContent(response, processingOptions);
+    const { results: toolInputValidation, warnings } = await this.validateToolCalls(
+      content,
+      processingOptions,
+    );
     const hasToolCalls = content.some(item => item.type === "tool-call");
     const rawFinishReason = mapOllamaFinishReason(response.done_reason);
     const finishReason: LanguageModelV3FinishReason = hasToolCalls && rawFinishReason.unified !== "tool-calls"
       ? { unified: "tool-calls", raw: "tool_calls" }
       : rawFinishReason;
     const usage = this.extractUsage(response);
-    const providerMetadata: SharedV3ProviderMetadata = { ollama: {} };
+    this.config.modelLoadTimes?.record(response.model, response.load_duration);
+    const providerMetadata: SharedV3ProviderMetadata = {
+      ollama: {
+        ...getOllamaMetrics(response),
+        ...(toolInputValidation != null && { toolInputValidation }),
+      },
+    };
 
     return {
       content,
       finishReason,
       usage,
       providerMetadata,
+      warnings,
     };
   }
 
-  private extractContent(response: OllamaResponse): LanguageModelV3Content[] {
+  private extractContent(
+    response: OllamaResponse,
+    { reasoningExtraction, toolCallRecovery }: OllamaResponseProcessingOptions,
+  ): LanguageModelV3Content[] {
     const content: LanguageModelV3Content[] = [];
 
+    // Split inline reasoning tags from the text content when enabled
+    const { text: contentText, reasoning: extractedReasoning } =
+      reasoningExtraction != null && response.message.content != null
+        ? extractReasoning(response.message.content, reasoningExtraction)
+        : { text: response.message.content, reasoning: "" };
+
+    // Recover tool calls from the text content when enabled and the model
+    // did not return structured tool calls
+    const recovered =
+      toolCallRecovery != null &&
+      contentText != null &&
+      !response.message.tool_calls?.length
+        ? recoverToolCalls(contentText, toolCallRecovery)
+        : undefined;
+    const text = recovered?.text ?? contentText;
+
     // Add text content
-    const text = response.message.content;
     if (text != null && text.length > 0) {
       content.push({
         type: "text",
@@ -81,8 +141,8 @@ export class OllamaResponseProcessor {
     }
 
     // Add thinking content
-    const thinking = response.message.thinking;
-    if (thinking != null && thinking.length > 0) {
+    const thinking = (response.message.thinking ?? "") + extractedReasoning;
+    if (thinking.length > 0) {
       content.push({
         type: "reasoning",
         text: thinking,
@@ -99,9 +159,58 @@ export class OllamaResponseProcessor {
       });
     }
 
+    for (const toolCall of recovered?.toolCalls ?? []) {
+      content.push({
+        type: "tool-call" as const,
+        toolCallId: this.config.generateId?.() ?? generateId(),
+        toolName: toolCall.toolName,
+        input: JSON.stringify(toolCall.input),
+      });
+    }
+
     return content;
   }
 
+  /**
+   * Validates the tool call inputs in place and returns the validation
+   * results, or `undefined` when validation is disabled.
+   */
+  private async validateToolCalls(
+    content: LanguageModelV3Content[],
+    { toolInputValidation, repairToolCall }: OllamaResponseProcessingOptions,
+  ): Promise<{ results?: JSONObject[]; warnings: SharedV3Warning[] }> {
+    const warnings: SharedV3Warning[] = [];
+
+    if (toolInputValidation == null) {
+      return { results: undefined, warnings };
+    }
+
+    const results: JSONObject[] = [];
+
+    for (const [index, part] of content.entries()) {
+      if (part.type !== "tool-call") {
+        continue;
+      }
+
+      const { input, result, warning } = await validateToolCall({
+        toolCallId: part.toolCallId,
+        toolName: part.toolName,
+        input: JSON.parse(part.input),
+        settings: toolInputValidation,
+        repairToolCall,
+      });
+
+      content[index] = { ...part, input: JSON.stringify(input) };
+      results.push(result);
+
+      if (warning != null) {
+        warnings.push(warning);
+      }
+    }
+
+    return { results, warnings };
+  }
+
   private extractUsage(response: OllamaResponse): LanguageModelV3Usage {
     return {
       inputTokens: {
@@ -118,39 +227,3 @@ export class OllamaResponseProcessor {
     };
   }
 }
-
-/**
- * Extracts one or more valid Ollama response objects from a stream chunk.
- * Handles both successful parsed chunks and error chunks that may contain
- * multiple JSON objects separated by newlines (NDJSON-like behavior).
- */
-export function extractOllamaResponseObjectsFromChunk(
-  chunk: any,
-): OllamaResponse[] {
-  if (chunk.success) {
-    return [chunk.value];
-  }
-
-  const results: OllamaResponse[] = [];
-  const raw = (chunk.error as any)?.text;
-  if (typeof raw !== "string" || raw.length === 0) {
-    return results;
-  }
-
-  const lines = raw.split(/\r?\n/);
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed === "") continue;
-    try {
-      const parsed = JSON.parse(trimmed);
-      const validated = baseOllamaResponseSchema.safeParse(parsed);
-      if (validated.success) {
-        results.push(validated.data);
-      }
-    } catch {
-      // Ignore malformed line; continue with remaining lines
-    }
-  }
-
-  return results;
-} 
\ No newline at end of file
@@ -4,9 +4,31 @@ import {
 import { parseProviderOptions } from "@ai-sdk/provider-utils";
 import { z } from "zod/v4";
 import { convertToOllamaChatMessages } from "../adaptors/convert-to-ollama-chat-messages";
+import { OllamaChatPrompt } from "../adaptors/ollama-chat-prompt";
+import { mapOllamaThink, OllamaThinkLevel } from "../adaptors/map-ollama-think";
+import { mergeOptions } from "../common/merge-options";
+import { OllamaQueueOptions } from "../common/ollama-concurrency-limiter";
+import {
+  convertCallSettingsToRuntimeOptions,
+  mergeRuntimeOptions,
+  OllamaRuntimeOptions,
+} from "../common/ollama-runtime-options";
+import { OllamaStreamTimeoutSettings } from "../common/ollama-stream-timeout";
 import { OllamaChatModelId, ollamaProviderOptions } from "../ollama-chat-settings";
-import { convertToOllamaResponsesMessages } from "./convert-to-ollama-responses-messages";
+import { OllamaResponsesTool } from "./ollama-responses-api-types";
 import { prepareResponsesTools } from "./ollama-responses-prepare-tools";
+import {
+  ReasoningExtractionSettings,
+  resolveReasoningExtraction,
+} from "./ollama-reasoning-extractor";
+import {
+  resolveToolCallRecovery,
+  ToolCallRecoverySettings,
+} from "./ollama-tool-call-recovery";
+import {
+  resolveToolInputValidation,
+  ToolInputValidationSettings,
+} from "./ollama-tool-input-validation";
 
 
 export type OllamaResponsesProviderOptions = z.infer<
@@ -30,23 +52,30 @@ interface RequestBuilderOptions {
   responseFormat?: any;
 }
 
-interface RequestBuilderResult {
+export interface RequestBuilderResult {
   args: {
     model: OllamaChatModelId;
-    messages: any;
-    temperature?: number;
-    top_p?: number;
-    max_output_tokens?: number;
+    messages: OllamaChatPrompt;
     format?: any;
     user?: string;
-    think?: boolean;
+    think?: boolean | OllamaThinkLevel;
+    keep_alive?: string | number;
+    options?: OllamaRuntimeOptions;
     tools?: any;
-    tool_choice?: any;
   };
   warnings: SharedV3Warning[];
+  reasoningExtraction: ReasoningExtractionSettings | undefined;
+  toolCallRecovery: ToolCallRecoverySettings | undefined;
+  toolInputValidation: ToolInputValidationSettings | undefined;
+  streamTimeouts: OllamaStreamTimeoutSettings | undefined;
+  queue: OllamaQueueOptions | undefined;
 }
 
 export class OllamaRequestBuilder {
+  constructor(
+    private readonly defaultOptions: OllamaResponsesProviderOptions = {},
+  ) {}
+
   async buildRequest({
     modelId,
     maxOutputTokens,
@@ -63,124 +92,162 @@ export class OllamaRequestBuilder {
     toolChoice,
     responseFormat,
   }: RequestBuilderOptions): Promise<RequestBuilderResult> {
-    const warnings = this.collectUnsupportedSettingsWarnings({
-      topK,
-      seed,
-      presencePenalty,
-      frequencyPenalty,
-      stopSequences,
-    });
-
-    const { messages, warnings: messageWarnings } =
-      convertToOllamaResponsesMessages({
-        prompt,
-        systemMessageMode: "system",
-      });
-
-    warnings.push(...messageWarnings);
+    const warnings: SharedV3Warning[] = [];
 
     const ollamaOptions = await this.parseProviderOptions(providerOptions);
 
-    const baseArgs = this.buildBaseArgs({
+    const {
+      args: baseArgs,
+      warnings: baseWarnings,
+      reasoningExtraction,
+      streamTimeouts,
+      queue,
+    } = this.buildBaseArgs({
       modelId,
       prompt,
-      temperature,
-      topP,
-      maxOutputTokens,
       responseFormat,
       ollamaOptions,
+      callSettingsOptions: convertCallSettingsToRuntimeOptions({
+        maxOutputTokens,
+        temperature,
+        topP,
+        topK,
+        presencePenalty,
+        frequencyPenalty,
+        stopSequences,
+        seed,
+      }),
     });
 
-    const { tools: ollamaTools, toolChoice: ollamaToolChoice, toolWarnings } =
+    warnings.push(...baseWarnings);
+
+    const { tools: ollamaTools, toolCallFormat, toolWarnings } =
       prepareResponsesTools({
         tools,
         toolChoice,
       });
 
+    // A required tool call is enforced by constraining the output to a tool
+    // call object, which is then converted into a tool call:
+    const enforceToolCall = toolCallFormat != null && baseArgs.format == null;
+
+    if (toolCallFormat != null && !enforceToolCall) {
+      warnings.push({
+        type: "unsupported",
+        feature: "toolChoice",
+        details:
+          "A tool call cannot be enforced together with a JSON response format.",
+      });
+    }
+
+    const toolNames = getFunctionToolNames(ollamaTools);
+
     return {
       args: {
         ...baseArgs,
+        ...(enforceToolCall && { format: toolCallFormat }),
         tools: ollamaTools,
-        tool_choice: ollamaToolChoice,
       },
       warnings: [...warnings, ...toolWarnings],
+      reasoningExtraction,
+      toolCallRecovery: enforceToolCall
+        ? { formats: ["json"], toolNames }
+        : resolveToolCallRecovery(
+            ollamaOptions?.toolCallRecovery ??
+              this.defaultOptions.toolCallRecovery,
+            toolNames,
+          ),
+      toolInputValidation: resolveToolInputValidation(
+        ollamaOptions?.toolInputValidation ??
+          this.defaultOptions.toolInputValidation,
+        ollamaTools,
+      ),
+      streamTimeouts,
+      queue,
     };
   }
 
-  private collectUnsupportedSettingsWarnings({
-    topK,
-    seed,
-    presencePenalty,
-    frequencyPenalty,
-    stopSequences,
-  }: {
-    topK?: number;
-    seed?: number;
-    presencePenalty?: number;
-    frequencyPenalty?: number;
-    stopSequences?: string[];
-  }): SharedV3Warning[] {
-    const warnings: SharedV3Warning[] = [];
-
-    const unsupportedSettings = [
-      { value: topK, name: "topK" },
-      { value: seed, name: "seed" },
-      { value: presencePenalty, name: "presencePenalty" },
-      { value: frequencyPenalty, name: "frequencyPenalty" },
-      { value: stopSequences, name: "stopSequences" },
-    ] as const;
-
-    for (const { value, name } of unsupportedSettings) {
-      if (value != null) {
-        warnings.push({ type: "unsupported", feature: "setting", details: name });
-      }
-    }
-
-    return warnings;
-  }
-
   private async parseProviderOptions(providerOptions: any): Promise<OllamaResponsesProviderOptions | null> {
     const result = await parseProviderOptions({
       provider: "ollama",
       providerOptions,
       schema: ollamaProviderOptions,
     });
+
     return result ?? null;
   }
 
+  /**
+   * Runtime options are resolved with increasing precedence from the model
+   * settings, the standardized call settings (e.g. `temperature`) and the
+   * per-call `providerOptions.ollama.options`.
+   */
   private buildBaseArgs({
     modelId,
     prompt,
-    temperature,
-    topP,
-    maxOutputTokens,
     responseFormat,
     ollamaOptions,
+    callSettingsOptions,
   }: {
     modelId: OllamaChatModelId;
     prompt: any;
-    temperature?: number;
-    topP?: number;
-    maxOutputTokens?: number;
     responseFormat?: any;
     ollamaOptions: OllamaResponsesProviderOptions | null;
+    callSettingsOptions: OllamaRuntimeOptions | undefined;
   }) {
-    return {
+    const { options: defaultRuntimeOptions, ...defaultOptions } =
+      this.defaultOptions;
+    const { options: callRuntimeOptions, ...callOptions } = ollamaOptions ?? {};
+    const mergedOptions = mergeOptions(defaultOptions, callOptions);
+
+    const { think, warnings } = mapOllamaThink({
+      modelId,
+      think: mergedOptions.think,
+      reasoningEffort: mergedOptions.reasoningEffort,
+    });
+
+    const { messages, warnings: messageWarnings } = convertToOllamaChatMessages({
+      prompt,
+      systemMessageMode: "system",
+      toolResultImageMode: mergedOptions.toolResultImageMode,
+    });
+
+    const args = {
       model: modelId,
-      messages: convertToOllamaChatMessages({
-        prompt,
-        systemMessageMode: "system",
-      }),
-      temperature,
-      top_p: topP,
-      max_output_tokens: maxOutputTokens,
+      messages,
 
       ...(responseFormat?.type === "json" && {
         format: responseFormat.schema != null ? responseFormat.schema : "json",
       }),
 
-      think: ollamaOptions?.think ?? false,
-      options: ollamaOptions?.options?? undefined
+      ...(think !== undefined && { think }),
+      keep_alive: mergedOptions.keepAlive,
+      options: mergeRuntimeOptions(
+        mergeRuntimeOptions(defaultRuntimeOptions, callSettingsOptions),
+        callRuntimeOptions,
+      ),
+    };
+
+    return {
+      args,
+      warnings: [...warnings, ...messageWarnings],
+      reasoningExtraction: resolveReasoningExtraction(
+        mergedOptions.extractReasoning,
+      ),
+      streamTimeouts: mergedOptions.streamTimeouts,
+      queue: mergedOptions.queue,
     };
   }
-} 
\ No newline at end of file
+}
+
+function getFunctionToolNames(
+  tools: OllamaResponsesTool[] | undefined,
+): string[] {
+  const names: string[] = [];
+  for (const tool of tools ?? []) {
+    if (tool.type === "function") {
+      names.push(tool.function.name);
+    }
+  }
+  return names;
+}
@@ -1,23 +1,38 @@
 import {
   InvalidResponseDataError,
+  JSONObject,
   LanguageModelV3FinishReason,
   LanguageModelV3StreamPart,
   LanguageModelV3Usage,
 } from "@ai-sdk/provider";
-import { generateId, ParseResult } from "@ai-sdk/provider-utils";
+import { generateId } from "@ai-sdk/provider-utils";
 import { z } from "zod/v4";
 import { mapOllamaFinishReason } from "../adaptors/map-ollama-finish-reason";
+import { getOllamaMetrics } from "../common/get-ollama-metrics";
 import { getResponseMetadata } from "../common/get-response-metadata";
+import { NdjsonParseResult } from "../common/ndjson-stream-handler";
+import { getQueueMetadata } from "../common/ollama-concurrency-limiter";
 import { OllamaConfig } from "../common/ollama-config";
 import {
   baseOllamaResponseSchema,
-  extractOllamaResponseObjectsFromChunk,
   OllamaResponse,
+  OllamaResponseProcessingOptions,
 } from "./ollama-responses-processor";
+import {
+  ReasoningExtractor,
+  ReasoningSegment,
+} from "./ollama-reasoning-extractor";
+import { ToolCallRecoveryBuffer } from "./ollama-tool-call-recovery";
+import {
+  ToolCallRepairFunction,
+  ToolInputValidationSettings,
+  validateToolCall,
+} from "./ollama-tool-input-validation";
 
 interface StreamState {
   finishReason: LanguageModelV3FinishReason;
   usage: LanguageModelV3Usage;
+  metrics: JSONObject;
   responseId: string | null;
   ongoingToolCalls: Record<number, { toolName: string; toolCallId: string } | undefined>;
   hasToolCalls: boolean;
@@ -28,17 +43,42 @@ interface StreamState {
   reasoningEnded: boolean;
   textId: string;
   reasoningId: string;
+  pendingToolCalls: Array<{ toolCallId: string; toolName: string; input: unknown }>;
+  toolInputValidationResults: JSONObject[];
 }
 
 export class OllamaStreamProcessor {
   private state: StreamState;
+  private readonly reasoningExtractor: ReasoningExtractor | undefined;
+  private readonly toolCallRecovery: ToolCallRecoveryBuffer | undefined;
+  private readonly toolInputValidation: ToolInputValidationSettings | undefined;
+  private readonly repairToolCall: ToolCallRepairFunction | undefined;
 
-  constructor(private config: OllamaConfig) {
+  constructor(
+    private config: OllamaConfig,
+    {
+      reasoningExtraction,
+      toolCallRecovery,
+      toolInputValidation,
+      repairToolCall,
+    }: OllamaResponseProcessingOptions = {},
+    private readonly queueWait?: number,
+  ) {
     this.state = this.initializeState();
+    this.reasoningExtractor =
+      reasoningExtraction != null
+        ? new ReasoningExtractor(reasoningExtraction)
+        : undefined;
+    this.toolCallRecovery =
+      toolCallRecovery != null
+        ? new ToolCallRecoveryBuffer(toolCallRecovery)
+        : undefined;
+    this.toolInputValidation = toolInputValidation;
+    this.repairToolCall = repairToolCall;
   }
 
   createTransformStream(warnings: any[], options: any): TransformStream<
-    ParseResult<z.infer<typeof baseOllamaResponseSchema>>,
+    NdjsonParseResult<z.infer<typeof baseOllamaResponseSchema>>,
     LanguageModelV3StreamPart
   > {
     return new TransformStream({
@@ -46,7 +86,10 @@ export class OllamaStreamProcessor {
         this.processChunk(chunk, controller, options);
       },
 
-      flush: (controller) => {
+      flush: async (controller) => {
+        this.flushReasoningExtractor(controller);
+        this.flushToolCallRecovery(controller);
+        await this.emitValidatedToolCalls(controller);
         this.finalizeStream(controller);
       },
     });
@@ -71,6 +114,7 @@ export class OllamaStreamProcessor {
           reasoning: undefined,
         },
       },
+      metrics: {},
       responseId: null,
       ongoingToolCalls: {},
       hasToolCalls: false,
@@ -81,11 +125,13 @@ export class OllamaStreamProcessor {
       reasoningEnded: false,
       textId: generateId(),
       reasoningId: generateId(),
+      pendingToolCalls: [],
+      toolInputValidationResults: [],
     };
   }
 
   private processChunk(
-    chunk: ParseResult<z.infer<typeof baseOllamaResponseSchema>>,
+    chunk: NdjsonParseResult<z.infer<typeof baseOllamaResponseSchema>>,
     controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
     options: any,
   ) {
@@ -93,32 +139,20 @@ export class OllamaStreamProcessor {
       controller.enqueue({ type: "raw", rawValue: (chunk as any).rawValue });
     }
 
-    const values = extractOllamaResponseObjectsFromChunk(chunk);
-
-    if (values.length === 0) {
-      if (!chunk.success) {
-        this.state.finishReason = {unified: "error", raw: undefined};
-        controller.enqueue({ type: "error", error: chunk.error });
-      }
+    // Handle error chunks, invalid lines and truncated data
+    if (!chunk.success) {
+      this.state.finishReason = {unified: "error", raw: undefined};
+      controller.enqueue({ type: "error", error: chunk.error });
       return;
     }
 
-    for (const value of values) {
-      this.processResponseValue(value, controller);
-    }
+    this.processResponseValue(chunk.value, controller);
   }
 
   private processResponseValue(
     value: OllamaResponse,
     controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
   ) {
-    // Handle error-like chunks
-    if ((value as any) && typeof (value as any) === "object" && "error" in (value as any)) {
-      this.state.finishReason = {unified: "error", raw: undefined};
-      controller.enqueue({ type: "error", error: (value as any).error });
-      return;
-    }
-
     if (this.state.isFirstChunk) {
       this.state.isFirstChunk = false;
       controller.enqueue({
@@ -127,21 +161,24 @@ export class OllamaStreamProcessor {
       });
     }
 
-    if (value.done) {
-      this.handleDoneChunk(value, controller);
-    }
-
     const delta = value?.message;
     if (delta) {
       this.processDelta(delta, controller);
     }
+
+    if (value.done) {
+      this.handleDoneChunk(value, controller);
+    }
   }
 
   private handleDoneChunk(
     value: OllamaResponse,
     controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
   ) {
-    this.state.finishReason = mapOllamaFinishReason(value.done_reason);
+    // an error earlier in the stream takes precedence:
+    if (this.state.finishReason.unified !== "error") {
+      this.state.finishReason = mapOllamaFinishReason(value.done_reason);
+    }
     this.state.usage = {
       inputTokens: {
         total: value.prompt_eval_count || 0,
@@ -155,6 +192,13 @@ export class OllamaStreamProcessor {
         reasoning: undefined,
       },
     };
+    this.state.metrics = getOllamaMetrics(value);
+    this.config.modelLoadTimes?.record(value.model, value.load_duration);
+
+    // Emit text that was held back as a potential partial reasoning tag
+    // or tool call
+    this.flushReasoningExtractor(controller);
+    this.flushToolCallRecovery(controller);
 
     // Close any started streams
     if (this.state.hasTextStarted && !this.state.textEnded) {
@@ -180,17 +224,117 @@ export class OllamaStreamProcessor {
     delta: OllamaResponse["message"],
     controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
   ) {
+    if (delta?.content != null && this.reasoningExtractor != null) {
+      for (const segment of this.reasoningExtractor.process(delta.content)) {
+        this.emitExtractedSegment(segment, controller);
+      }
+      return;
+    }
+
+    if (delta?.content != null && this.toolCallRecovery != null) {
+      this.emitRecoverableText(delta.content, controller);
+      return;
+    }
+
     if (delta?.content != null) {
-      if (!this.state.hasTextStarted) {
-        controller.enqueue({ type: "text-start", id: this.state.textId });
-        this.state.hasTextStarted = true;
+      this.emitTextDelta(delta.content, controller);
+    }
+  }
+
+  private emitTextDelta(
+    text: string,
+    controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+  ) {
+    if (!this.state.hasTextStarted) {
+      controller.enqueue({ type: "text-start", id: this.state.textId });
+      this.state.hasTextStarted = true;
+    }
+    controller.enqueue({
+      type: "text-delta",
+      id: this.state.textId,
+      delta: text,
+    });
+  }
+
+  /**
+   * Emits text while holding back potential tool call markup until it is
+   * complete.
+   */
+  private emitRecoverableText(
+    text: string,
+    controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+  ) {
+    const emittableText =
+      this.toolCallRecovery != null ? this.toolCallRecovery.process(text) : text;
+
+    if (emittableText.length > 0) {
+      this.emitTextDelta(emittableText, controller);
+    }
+  }
+
+  private flushToolCallRecovery(
+    controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+  ) {
+    if (this.toolCallRecovery == null) {
+      return;
+    }
+
+    const { text, toolCalls } = this.toolCallRecovery.flush();
+
+    if (text.length > 0) {
+      this.emitTextDelta(text, controller);
+    }
+
+    // Structured tool calls take precedence over recovered ones
+    if (this.state.hasToolCalls) {
+      return;
+    }
+
+    for (const toolCall of toolCalls) {
+      this.emitToolCall(
+        { function: { name: toolCall.toolName, arguments: toolCall.input } },
+        controller,
+      );
+    }
+  }
+
+  private flushReasoningExtractor(
+    controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+  ) {
+    for (const segment of this.reasoningExtractor?.flush() ?? []) {
+      this.emitExtractedSegment(segment, controller);
+    }
+  }
+
+  private emitExtractedSegment(
+    segment: ReasoningSegment,
+    controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+  ) {
+    if (segment.type === "reasoning") {
+      // Reasoning that follows a closed reasoning block starts a new block
+      if (this.state.reasoningEnded) {
+        this.state.reasoningId = this.config.generateId?.() ?? generateId();
+        this.state.hasReasoningStarted = false;
+        this.state.reasoningEnded = false;
+      }
+      if (!this.state.hasReasoningStarted) {
+        controller.enqueue({ type: "reasoning-start", id: this.state.reasoningId });
+        this.state.hasReasoningStarted = true;
       }
       controller.enqueue({
-        type: "text-delta",
-        id: this.state.textId,
-        delta: delta.content,
+        type: "reasoning-delta",
+        id: this.state.reasoningId,
+        delta: segment.text,
       });
+      return;
     }
+
+    // The reasoning block is complete once the answer text starts
+    if (this.state.hasReasoningStarted && !this.state.reasoningEnded) {
+      controller.enqueue({ type: "reasoning-end", id: this.state.reasoningId });
+      this.state.reasoningEnded = true;
+    }
+    this.emitRecoverableText(segment.text, controller);
   }
 
   private processThinking(
@@ -237,16 +381,43 @@ export class OllamaStreamProcessor {
   ) {
     const id = toolCall.id ?? (this.config.generateId?.() ?? generateId());
 
+    this.state.hasToolCalls = true;
+
+    // Validated tool calls are emitted when the stream ends, since an invalid
+    // call may be sent back to the model for repair
+    if (this.toolInputValidation != null) {
+      this.state.pendingToolCalls.push({
+        toolCallId: id,
+        toolName: toolCall.function.name,
+        input: toolCall.function.arguments,
+      });
+      return;
+    }
+
+    this.enqueueToolCall(
+      id,
+      toolCall.function.name,
+      JSON.stringify(toolCall.function.arguments),
+      controller,
+    );
+  }
+
+  private enqueueToolCall(
+    id: string,
+    toolName: string,
+    input: string,
+    controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+  ) {
     controller.enqueue({
       type: "tool-input-start",
       id: id,
-      toolName: toolCall.function.name,
+      toolName,
     });
 
     controller.enqueue({
       type: "tool-input-delta",
       id: id,
-      delta: JSON.stringify(toolCall.function.arguments),
+      delta: input,
     });
 
     controller.enqueue({
@@ -257,11 +428,37 @@ export class OllamaStreamProcessor {
     controller.enqueue({
       type: "tool-call",
       toolCallId: id,
-      toolName: toolCall.function.name,
-      input: JSON.stringify(toolCall.function.arguments),
+      toolName,
+      input,
     });
+  }
 
-    this.state.hasToolCalls = true;
+  private async emitValidatedToolCalls(
+    controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+  ) {
+    if (this.toolInputValidation == null) {
+      return;
+    }
+
+    for (const toolCall of this.state.pendingToolCalls) {
+      // failed repairs are reported in the validation result, since the
+      // warnings of a stream are returned before it starts:
+      const { input, result } = await validateToolCall({
+        ...toolCall,
+        settings: this.toolInputValidation,
+        repairToolCall: this.repairToolCall,
+      });
+
+      this.state.toolInputValidationResults.push(result);
+      this.enqueueToolCall(
+        toolCall.toolCallId,
+        toolCall.toolName,
+        JSON.stringify(input),
+        controller,
+      );
+    }
+
+    this.state.pendingToolCalls = [];
   }
 
   private finalizeStream(
@@ -276,7 +473,9 @@ export class OllamaStreamProcessor {
     }
 
     const correctedFinishReason: LanguageModelV3FinishReason =
-      this.state.hasToolCalls && this.state.finishReason.unified !== "tool-calls"
+      this.state.hasToolCalls &&
+      this.state.finishReason.unified !== "tool-calls" &&
+      this.state.finishReason.unified !== "error"
         ? { unified: "tool-calls", raw: "tool_calls" }
         : this.state.finishReason;
 
@@ -287,6 +486,11 @@ export class OllamaStreamProcessor {
       providerMetadata: {
         ollama: {
           responseId: this.state.responseId,
+          ...this.state.metrics,
+          ...getQueueMetadata(this.queueWait),
+          ...(this.toolInputValidation != null && {
+            toolInputValidation: this.state.toolInputValidationResults,
+          }),
         },
       },
     });
@@ -0,0 +1,329 @@
+import { getPartialMarkerLength } from "./get-partial-marker-length";
+
+/**
+ * Text formats of tool calls. `json` matches output that consists of a single
+ * JSON tool call object, as produced when the output is constrained to a tool
+ * call.
+ */
+export type ToolCallFormat = "hermes" | "fenced-json" | "mistral" | "json";
+
+const DEFAULT_TOOL_CALL_FORMATS: ToolCallFormat[] = [
+  "hermes",
+  "fenced-json",
+  "mistral",
+];
+
+export interface ToolCallRecoverySettings {
+  /**
+   * Text formats that are recognized as tool calls.
+   */
+  formats: ToolCallFormat[];
+
+  /**
+   * Names of the tools that were sent with the request. Parsed calls to other
+   * tools are left in the text.
+   */
+  toolNames: string[];
+}
+
+const FENCE = "```";
+
+interface ToolCallMarker {
+  start: string;
+  end?: string;
+}
+
+export interface RecoveredToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Resolves the `toolCallRecovery` setting. Returns `undefined` when recovery
+ * is disabled or the request has no tools.
+ */
+export function resolveToolCallRecovery(
+  setting: boolean | { formats?: ToolCallFormat[] } | undefined,
+  toolNames: string[],
+): ToolCallRecoverySettings | undefined {
+  if (setting == null || setting === false || toolNames.length === 0) {
+    return undefined;
+  }
+
+  const { formats = DEFAULT_TOOL_CALL_FORMATS } = setting === true ? {} : setting;
+
+  return { formats, toolNames };
+}
+
+// Markers that start and end a potential tool call, per format. Calls without
+// an end marker extend to the end of the output:
+const TOOL_CALL_MARKERS: Record<ToolCallFormat, ToolCallMarker> = {
+  hermes: { start: "<tool_call>", end: "</tool_call>" },
+  "fenced-json": { start: FENCE, end: FENCE },
+  mistral: { start: "[TOOL_CALLS]" },
+  json: { start: "{" },
+};
+
+/**
+ * Recovers tool calls that the model wrote into its text output instead of
+ * using structured tool calls. Supports Hermes-style `<tool_call>` tags, fenced
+ * JSON blocks and Mistral-style `[TOOL_CALLS]` markers.
+ *
+ * Returns `undefined` when the text contains no valid tool calls. Otherwise the
+ * tool call markup is removed from the returned text.
+ */
+export function recoverToolCalls(
+  text: string,
+  settings: ToolCallRecoverySettings,
+): { text: string; toolCalls: RecoveredToolCall[] } | undefined {
+  const toolCalls: RecoveredToolCall[] = [];
+  let remainingText = text;
+
+  const replaceValidCalls = (pattern: RegExp) => {
+    remainingText = remainingText.replace(pattern, (match, json: string) => {
+      const calls = parseToolCalls(json, settings.toolNames);
+      if (calls == null) {
+        return match;
+      }
+      toolCalls.push(...calls);
+      return "";
+    });
+  };
+
+  for (const format of settings.formats) {
+    switch (format) {
+      case "hermes":
+        replaceValidCalls(/<tool_call>\s*([\s\S]*?)\s*(?:<\/tool_call>|$)/g);
+        break;
+      case "fenced-json":
+        replaceValidCalls(/```(?:json)?\s*\n([\s\S]*?)\n?```/g);
+        break;
+      case "mistral":
+        replaceValidCalls(/\[TOOL_CALLS\]\s*([\s\S]*)$/);
+        break;
+      case "json":
+        replaceValidCalls(/^\s*(\{[\s\S]*\})\s*$/);
+        break;
+    }
+  }
+
+  if (toolCalls.length === 0) {
+    return undefined;
+  }
+
+  return { text: remainingText.trim(), toolCalls };
+}
+
+/**
+ * Holds back streamed text from a potential tool call marker on, so that the
+ * tool call markup is not emitted as text. Calls with an end marker are parsed
+ * as soon as they are complete and released as text when they are not valid
+ * tool calls; all other held back text is parsed when the stream ends.
+ */
+export class ToolCallRecoveryBuffer {
+  private readonly markers: ToolCallMarker[];
+  private readonly toolCalls: RecoveredToolCall[] = [];
+  private pending = "";
+
+  // marker of the potential tool call at the start of `pending`:
+  private activeMarker: ToolCallMarker | undefined;
+
+  // whether `pending` is inside a code block that holds no tool call:
+  private isInsideCodeBlock = false;
+
+  constructor(private readonly settings: ToolCallRecoverySettings) {
+    this.markers = settings.formats.map(format => TOOL_CALL_MARKERS[format]);
+  }
+
+  /**
+   * Returns the part of the text that can be emitted right away.
+   */
+  process(delta: string): string {
+    this.pending += delta;
+    let text = "";
+
+    while (true) {
+      if (this.isInsideCodeBlock) {
+        const index = this.pending.indexOf(FENCE);
+
+        if (index === -1) {
+          return text + this.release([FENCE]);
+        }
+
+        text += this.pending.slice(0, index + FENCE.length);
+        this.pending = this.pending.slice(index + FENCE.length);
+        this.isInsideCodeBlock = false;
+        continue;
+      }
+
+      if (this.activeMarker == null) {
+        const start = this.findStartMarker();
+
+        if (start == null) {
+          return text + this.release(this.markers.map(marker => marker.start));
+        }
+
+        text += this.pending.slice(0, start.index);
+        this.pending = this.pending.slice(start.index);
+        this.activeMarker = start.marker;
+      }
+
+      const { start, end } = this.activeMarker;
+
+      if (start === FENCE) {
+        const isToolCall = isToolCallFence(this.pending.slice(FENCE.length));
+
+        if (isToolCall == null) {
+          return text;
+        }
+
+        if (!isToolCall) {
+          // an ordinary code block, which is emitted up to its closing fence:
+          text += FENCE;
+          this.pending = this.pending.slice(FENCE.length);
+          this.activeMarker = undefined;
+          this.isInsideCodeBlock = true;
+          continue;
+        }
+      }
+
+      const endIndex =
+        end != null ? this.pending.indexOf(end, start.length) : -1;
+
+      if (end == null || endIndex === -1) {
+        return text;
+      }
+
+      const markup = this.pending.slice(0, endIndex + end.length);
+      this.pending = this.pending.slice(endIndex + end.length);
+      this.activeMarker = undefined;
+
+      const recovered = recoverToolCalls(markup, this.settings);
+      if (recovered != null) {
+        this.toolCalls.push(...recovered.toolCalls);
+        text += recovered.text;
+      } else {
+        text += markup;
+      }
+    }
+  }
+
+  flush(): { text: string; toolCalls: RecoveredToolCall[] } {
+    const pending = this.pending;
+    const recovered =
+      this.activeMarker != null
+        ? recoverToolCalls(pending, this.settings)
+        : undefined;
+
+    this.pending = "";
+    this.activeMarker = undefined;
+    this.isInsideCodeBlock = false;
+
+    return {
+      text: recovered?.text ?? pending,
+      toolCalls: [...this.toolCalls, ...(recovered?.toolCalls ?? [])],
+    };
+  }
+
+  private findStartMarker() {
+    let result: { index: number; marker: ToolCallMarker } | undefined;
+
+    for (const marker of this.markers) {
+      const index = this.pending.indexOf(marker.start);
+      if (index !== -1 && (result == null || index < result.index)) {
+        result = { index, marker };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Releases the pending text except for a potential partial marker at its end.
+   */
+  private release(markers: string[]): string {
+    const keep = Math.max(
+      0,
+      ...markers.map(marker => getPartialMarkerLength(this.pending, marker)),
+    );
+    const text = this.pending.slice(0, this.pending.length - keep);
+    this.pending = this.pending.slice(this.pending.length - keep);
+    return text;
+  }
+}
+
+/**
+ * Whether a code fence can hold a tool call: a `json` fence, or a fence whose
+ * body starts with a JSON object. Returns `undefined` while the text after the
+ * opening fence is too short to tell.
+ */
+function isToolCallFence(afterFence: string): boolean | undefined {
+  const body = afterFence.replace(/^\s+/, "");
+
+  if (body.length === 0) {
+    return undefined;
+  }
+
+  if (body.startsWith("{") || afterFence.startsWith("json")) {
+    return true;
+  }
+
+  return "json".startsWith(afterFence) ? undefined : false;
+}
+
+function parseToolCalls(
+  json: string,
+  toolNames: string[],
+): RecoveredToolCall[] | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json.trim());
+  } catch {
+    return undefined;
+  }
+
+  const candidates = Array.isArray(parsed) ? parsed : [parsed];
+  const toolCalls: RecoveredToolCall[] = [];
+
+  for (const candidate of candidates) {
+    const toolCall = parseToolCall(candidate, toolNames);
+    if (toolCall == null) {
+      return undefined;
+    }
+    toolCalls.push(toolCall);
+  }
+
+  return toolCalls.length > 0 ? toolCalls : undefined;
+}
+
+function parseToolCall(
+  value: unknown,
+  toolNames: string[],
+): RecoveredToolCall | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+
+  // OpenAI-style calls wrap the call in a `function` property:
+  const call = isRecord(value.function) ? value.function : value;
+  const toolName = call.name;
+
+  if (typeof toolName !== "string" || !toolNames.includes(toolName)) {
+    return undefined;
+  }
+
+  let input = call.arguments ?? call.parameters ?? {};
+  if (typeof input === "string") {
+    try {
+      input = JSON.parse(input);
+    } catch {
+      return undefined;
+    }
+  }
+
+  return isRecord(input) ? { toolName, input } : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
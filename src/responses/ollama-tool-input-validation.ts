@@ -0,0 +1,368 @@
+import {
+  getErrorMessage,
+  JSONObject,
+  JSONSchema7,
+  JSONSchema7Definition,
+  SharedV3Warning,
+} from "@ai-sdk/provider";
+import { isAbortError } from "@ai-sdk/provider-utils";
+import { OllamaResponsesTool } from "./ollama-responses-api-types";
+
+export interface ToolInputValidationSettings {
+  /**
+   * Input schemas of the function tools, by tool name.
+   */
+  schemas: Record<string, JSONSchema7>;
+
+  /**
+   * Whether invalid tool calls are sent back to the model once for repair.
+   */
+  repair: boolean;
+}
+
+export type ToolInputValidationStatus =
+  | "valid"
+  | "coerced"
+  | "repaired"
+  | "invalid";
+
+/**
+ * Asks the model to repair an invalid tool call. Returns the repaired input,
+ * or `undefined` when the model did not return a tool call.
+ */
+export type ToolCallRepairFunction = (options: {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  errors: string[];
+  schema: JSONSchema7;
+}) => Promise<unknown>;
+
+/**
+ * Resolves the `toolInputValidation` setting. Returns `undefined` when
+ * validation is disabled or the request has no function tools.
+ */
+export function resolveToolInputValidation(
+  setting: boolean | { repair?: boolean } | undefined,
+  tools: OllamaResponsesTool[] | undefined,
+): ToolInputValidationSettings | undefined {
+  if (setting == null || setting === false) {
+    return undefined;
+  }
+
+  const schemas: Record<string, JSONSchema7> = {};
+  for (const tool of tools ?? []) {
+    if (tool.type === "function") {
+      schemas[tool.function.name] = tool.function.parameters;
+    }
+  }
+
+  if (Object.keys(schemas).length === 0) {
+    return undefined;
+  }
+
+  return { schemas, repair: setting !== true && setting.repair === true };
+}
+
+/**
+ * Validates a tool call input against the tool's input schema and coerces
+ * trivially fixable values, e.g. numeric strings for number properties.
+ * When the input is invalid and a repair function is provided, the model is
+ * asked once to repair the call. A failed repair request leaves the call
+ * invalid and is returned as a warning.
+ */
+export async function validateToolCall({
+  toolCallId,
+  toolName,
+  input,
+  settings,
+  repairToolCall,
+}: {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  settings: ToolInputValidationSettings;
+  repairToolCall?: ToolCallRepairFunction;
+}): Promise<{ input: unknown; result: JSONObject; warning?: SharedV3Warning }> {
+  const schema = settings.schemas[toolName];
+
+  if (schema == null) {
+    return {
+      input,
+      result: {
+        toolCallId,
+        toolName,
+        status: "invalid",
+        errors: [`Unknown tool "${toolName}".`],
+      },
+    };
+  }
+
+  const validation = validateToolInput(input, schema);
+
+  if (validation.errors.length === 0) {
+    return {
+      input: validation.input,
+      result: {
+        toolCallId,
+        toolName,
+        status: validation.coerced ? "coerced" : "valid",
+        errors: [],
+      },
+    };
+  }
+
+  if (settings.repair && repairToolCall != null) {
+    let repairedInput: unknown;
+
+    try {
+      repairedInput = await repairToolCall({
+        toolCallId,
+        toolName,
+        input,
+        errors: validation.errors,
+        schema,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      const message = `The repair of the ${toolName} tool call failed: ${getErrorMessage(error)}`;
+
+      return {
+        input: validation.input,
+        result: {
+          toolCallId,
+          toolName,
+          status: "invalid",
+          errors: [...validation.errors, message],
+        },
+        warning: { type: "other", message },
+      };
+    }
+
+    if (repairedInput !== undefined) {
+      const repairedValidation = validateToolInput(repairedInput, schema);
+
+      if (repairedValidation.errors.length === 0) {
+        return {
+          input: repairedValidation.input,
+          result: { toolCallId, toolName, status: "repaired", errors: [] },
+        };
+      }
+    }
+  }
+
+  return {
+    input: validation.input,
+    result: {
+      toolCallId,
+      toolName,
+      status: "invalid",
+      errors: validation.errors,
+    },
+  };
+}
+
+/**
+ * Validates a value against a JSON schema. Supports the subset of JSON schema
+ * that is commonly used for tool inputs: `type`, `properties`, `required`,
+ * `additionalProperties: false`, `items`, `enum`, `const` and `anyOf`/`oneOf`.
+ */
+export function validateToolInput(
+  input: unknown,
+  schema: JSONSchema7,
+): { input: unknown; errors: string[]; coerced: boolean } {
+  const state = { errors: [] as string[], coerced: false };
+  const validatedInput = validateValue(input, schema, "", state);
+  return { input: validatedInput, ...state };
+}
+
+type ValidationState = { errors: string[]; coerced: boolean };
+
+function validateValue(
+  value: unknown,
+  schema: JSONSchema7Definition,
+  path: string,
+  state: ValidationState,
+): unknown {
+  if (typeof schema === "boolean") {
+    if (!schema) {
+      state.errors.push(`${formatPath(path)} is not allowed.`);
+    }
+    return value;
+  }
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives != null) {
+    for (const alternative of alternatives) {
+      const alternativeState: ValidationState = { errors: [], coerced: false };
+      const result = validateValue(value, alternative, path, alternativeState);
+      if (alternativeState.errors.length === 0) {
+        state.coerced ||= alternativeState.coerced;
+        return result;
+      }
+    }
+    state.errors.push(
+      `${formatPath(path)} does not match any of the allowed schemas.`,
+    );
+    return value;
+  }
+
+  if (schema.type != null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (!types.some(type => matchesType(value, type))) {
+      const coercion = coerceValue(value, types);
+      if (coercion == null) {
+        state.errors.push(`${formatPath(path)} must be of type ${types.join(" or ")}.`);
+        return value;
+      }
+      value = coercion.value;
+      state.coerced = true;
+    }
+  }
+
+  if (
+    schema.enum != null &&
+    !schema.enum.some(option => isEqual(option, value))
+  ) {
+    state.errors.push(
+      `${formatPath(path)} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}.`,
+    );
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    state.errors.push(
+      `${formatPath(path)} must be ${JSON.stringify(schema.const)}.`,
+    );
+  }
+
+  if (isRecord(value)) {
+    const result: Record<string, unknown> = { ...value };
+
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        state.errors.push(`${formatPath(`${path}/${key}`)} is required.`);
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(
+      schema.properties ?? {},
+    )) {
+      if (value[key] !== undefined) {
+        result[key] = validateValue(
+          value[key],
+          propertySchema,
+          `${path}/${key}`,
+          state,
+        );
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(value)) {
+        if (schema.properties?.[key] == null) {
+          state.errors.push(`${formatPath(`${path}/${key}`)} is not allowed.`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  if (Array.isArray(value) && schema.items != null && !Array.isArray(schema.items)) {
+    const itemSchema = schema.items;
+    return value.map((item, index) =>
+      validateValue(item, itemSchema, `${path}/${index}`, state),
+    );
+  }
+
+  return value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isRecord(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Coerces values that models commonly produce with the wrong type, e.g.
+ * `"42"` for a number or a JSON string for an object.
+ */
+function coerceValue(
+  value: unknown,
+  types: string[],
+): { value: unknown } | undefined {
+  for (const type of types) {
+    switch (type) {
+      case "number":
+      case "integer": {
+        if (typeof value === "string" && value.trim() !== "") {
+          const number = Number(value);
+          if (matchesType(number, type)) {
+            return { value: number };
+          }
+        }
+        break;
+      }
+      case "boolean": {
+        if (value === "true" || value === "false") {
+          return { value: value === "true" };
+        }
+        break;
+      }
+      case "string": {
+        if (typeof value === "number" || typeof value === "boolean") {
+          return { value: String(value) };
+        }
+        break;
+      }
+      case "object":
+      case "array": {
+        if (typeof value === "string") {
+          try {
+            const parsed = JSON.parse(value);
+            if (matchesType(parsed, type)) {
+              return { value: parsed };
+            }
+          } catch {
+            // not a JSON string
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function formatPath(path: string): string {
+  return path === "" ? "The input" : `"${path}"`;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
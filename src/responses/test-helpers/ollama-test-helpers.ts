@@ -45,6 +45,7 @@ export const createTestConfig = (): OllamaConfig => ({
 export const createMockServer : any = () =>
   createTestServer({
     'http://127.0.0.1:11434/api/chat': {},
+    'https://example.com/image.png': {},
   });
 
 export interface MockResponseOptions {
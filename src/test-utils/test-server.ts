@@ -20,6 +20,7 @@ type ResponseConfig = {
 };
 
 type CallRecord = {
+  requestMethod: string;
   requestBody: string;
   requestBodyJson: Promise<unknown>;
   requestHeaders: Record<string, string>;
@@ -27,6 +28,10 @@ type CallRecord = {
 
 type UrlConfig = {
   response?: ResponseConfig;
+  /**
+   * Responses for consecutive calls. Falls back to `response` once exhausted.
+   */
+  responses?: ResponseConfig[];
 };
 
 type UrlConfigWithCalls = UrlConfig & {
@@ -49,7 +54,7 @@ export function createTestServer(config: TestServerConfig): {
   }
 
   const handlers = Object.keys(config).map(url =>
-    http.post(url, async ({ request }) => {
+    http.all(url, async ({ request }) => {
       const urlConfig = urls[url]!;
 
       // Record the call
@@ -61,6 +66,7 @@ export function createTestServer(config: TestServerConfig): {
       });
 
       const callRecord: CallRecord = {
+        requestMethod: request.method,
         requestBody: bodyText,
         requestBodyJson: Promise.resolve().then(() => {
           try {
@@ -75,7 +81,8 @@ export function createTestServer(config: TestServerConfig): {
       urlConfig.calls.push(callRecord);
       calls.push(callRecord);
 
-      const response = urlConfig.response;
+      const response =
+        urlConfig.responses?.[urlConfig.calls.length - 1] ?? urlConfig.response;
 
       if (!response) {
         return HttpResponse.json({ error: 'No response configured' }, { status: 500 });
@@ -129,6 +136,7 @@ export function createTestServer(config: TestServerConfig): {
     calls.length = 0;
     for (const url of Object.keys(urls)) {
       urls[url]!.calls = [];
+      urls[url]!.responses = undefined;
     }
   });
   afterAll(() => server.close());